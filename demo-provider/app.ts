@@ -0,0 +1,106 @@
+/**
+ * Mock OAuth 2.0 / OpenID Connect Provider App
+ * All demo routes on one Express app (server.ts listens, the tests mount it on a random port)
+ */
+
+import express from 'express';
+import cors from 'cors';
+import { authorizeHandler, authorizePostHandler } from './routes/authorize.js';
+import { tokenHandler } from './routes/token.js';
+import { userinfoHandler } from './routes/userinfo.js';
+import { revokeHandler } from './routes/revoke.js';
+import { endSessionHandler } from './routes/end-session.js';
+import { discoveryHandler } from './routes/discovery.js';
+import { jwksHandler, rotateKeysHandler } from './routes/keys.js';
+import { handoffCreateHandler, handoffRedeemHandler } from './routes/handoff.js';
+import {
+  supabaseAuthorizeHandler,
+  supabaseTokenHandler,
+  supabaseUserHandler,
+  supabaseLogoutHandler,
+} from './routes/supabase.js';
+import {
+  githubAuthorizeHandler,
+  githubAccessTokenHandler,
+  githubExchangeHandler,
+  githubUserHandler,
+  githubEmailsHandler,
+} from './routes/github.js';
+import { createServerRoutes } from './routes/oauth-server.js';
+
+/**
+ * @param baseUrl Where the app is reachable (e.g. 'http://localhost:3001') - the server
+ * package demo calls the provider routes through it
+ */
+export function createApp(baseUrl: string) {
+  const app = express();
+
+  // packages/server demo - mounted before the global cors() because the BFF
+  // cookie needs credentialed CORS (reflected origin instead of '*')
+  const { serverHandler, bffHandler } = createServerRoutes(baseUrl);
+  app.use('/demo/server', cors(), express.json(), serverHandler);
+  app.use('/demo/bff', cors({ origin: true, credentials: true }), express.json(), bffHandler);
+
+  // Middleware
+  app.use(cors());
+  app.use(express.json());
+  app.use(express.urlencoded({ extended: true }));
+
+  // Routes
+  app.get('/demo/provider/.well-known/openid-configuration', discoveryHandler);
+  app.get('/demo/provider/jwks', jwksHandler);
+  app.post('/demo/provider/keys/rotate', rotateKeysHandler);
+  app.get('/demo/provider/authorize', authorizeHandler);
+  app.post('/demo/provider/authorize', authorizePostHandler);
+  app.post('/demo/provider/token', tokenHandler);
+  app.get('/demo/provider/userinfo', userinfoHandler);
+  app.post('/demo/provider/revoke', revokeHandler);
+  app.get('/demo/provider/end_session', endSessionHandler);
+  app.post('/demo/provider/handoff', handoffCreateHandler);
+  app.post('/demo/provider/handoff/redeem', handoffRedeemHandler);
+
+  // Supabase Auth stub (for SupabaseProvider)
+  app.get('/demo/supabase/auth/v1/authorize', supabaseAuthorizeHandler);
+  app.post('/demo/supabase/auth/v1/token', supabaseTokenHandler);
+  app.get('/demo/supabase/auth/v1/user', supabaseUserHandler);
+  app.post('/demo/supabase/auth/v1/logout', supabaseLogoutHandler);
+
+  // GitHub stub (for GitHubProvider)
+  app.get('/demo/github/login/oauth/authorize', githubAuthorizeHandler);
+  app.post('/demo/github/login/oauth/access_token', githubAccessTokenHandler);
+  app.post('/demo/github/exchange', githubExchangeHandler);
+  app.get('/demo/github/api/user', githubUserHandler);
+  app.get('/demo/github/api/user/emails', githubEmailsHandler);
+
+  // Health check
+  app.get('/demo/provider/health', (req, res) => {
+    res.json({ status: 'ok' });
+  });
+
+  // Root endpoint - provide info about available endpoints
+  app.get('/demo/provider', (req, res) => {
+    res.json({
+      name: 'Demo OAuth 2.0 / OpenID Connect Provider',
+      endpoints: {
+        discovery: 'GET /demo/provider/.well-known/openid-configuration',
+        jwks: 'GET /demo/provider/jwks',
+        rotateKeys: 'POST /demo/provider/keys/rotate',
+        authorize: 'GET /demo/provider/authorize',
+        token: 'POST /demo/provider/token',
+        userinfo: 'GET /demo/provider/userinfo',
+        revoke: 'POST /demo/provider/revoke',
+        endSession: 'GET /demo/provider/end_session',
+        handoff: 'POST /demo/provider/handoff',
+        handoffRedeem: 'POST /demo/provider/handoff/redeem',
+        supabase: '/demo/supabase/auth/v1 (authorize, token, user, logout)',
+        github: '/demo/github (login/oauth/authorize, login/oauth/access_token, exchange, api/user, api/user/emails)',
+        server: '/demo/server (exchange, refresh, revoke, handoff, handoff/redeem)',
+        bff: '/demo/bff (exchange, revoke, session, session/claim)',
+        health: 'GET /demo/provider/health',
+      },
+      description: 'Mock OAuth 2.0 / OpenID Connect provider for testing OAuth Kit',
+    });
+  });
+
+  return app;
+}
@@ -1,37 +1,145 @@
 /**
  * OAuth 2.0 Authorization Endpoint
- * GET /demo/provider/authorize
+ * GET  /demo/provider/authorize - validates the request, shows the consent screen
+ * POST /demo/provider/authorize - consent decision: issues a code or access_denied
  */
 
 import type { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+import { createProviderSession, getProviderSession } from './provider-session.js';
+import { TEST_USERS, SUPPORTED_SCOPES, findUser } from './users.js';
+import { findClient, isRedirectUriAllowed } from './clients.js';
+
+export interface AuthCode {
+  code: string;
+  clientId: string;
+  redirectUri: string;
+  /** PKCE challenge (optional for confidential clients) */
+  codeChallenge?: string;
+
+  /** Test user who consented */
+  userId: string;
+
+  /** Granted scopes */
+  scopes: string[];
+
+  /** From the authorization request, echoed in the id_token */
+  nonce?: string;
+
+  /** When the user signed in at the provider (ms) */
+  authTime: number;
+  expiresAt: number;
+}
+
+// Authorization request waiting for the consent decision
+interface PendingAuthorization {
+  clientId: string;
+  redirectUri: string;
+  state?: string;
+  scopes: string[];
+  nonce?: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+// Codes and consent screens are valid for 10 minutes
+const AUTHORIZATION_TTL = 10 * 60;
 
 // In-memory storage for authorization codes (in production, use Redis/DB)
-const authCodes = new Map<string, { code: string; redirectUri: string; expiresAt: number }>();
+const authCodes = new Map<string, AuthCode>();
+
+// Consent screens by request id
+const pendingAuthorizations = new Map<string, PendingAuthorization>();
+
+/**
+ * Take an authorization code (one-time use - removed on lookup)
+ */
+export function consumeAuthCode(code: string): AuthCode | null {
+  const storedCode = authCodes.get(code);
+  authCodes.delete(code);
+
+  if (!storedCode || Date.now() > storedCode.expiresAt) {
+    return null;
+  }
+  return storedCode;
+}
 
 export function authorizeHandler(req: Request, res: Response) {
-  const { client_id, redirect_uri, response_type, state, scope } = req.query;
+  const { client_id, redirect_uri, response_type, state, scope, nonce, code_challenge, code_challenge_method } = req.query;
 
-  // Validate parameters
-  if (!client_id || !redirect_uri || !response_type) {
-    return res.status(400).send('Missing required parameters');
+  // Unknown client or redirect URI: tell the user, never redirect (RFC 6749 4.1.2.1)
+  const client = findClient(client_id);
+  if (!client) {
+    return res.status(400).send(client_id ? 'Unknown client_id' : 'Missing client_id');
   }
 
+  if (!redirect_uri) {
+    return res.status(400).send('Missing redirect_uri');
+  }
+
+  if (!isRedirectUriAllowed(client.redirectUris, redirect_uri as string)) {
+    return res.status(400).send(`redirect_uri is not registered for ${escapeHtml(client.clientId)}`);
+  }
+
+  // Everything else goes back to the client, in the redirect URI's own query
+  const sendError = (error: string, description: string) => {
+    const redirectUrl = new URL(redirect_uri as string);
+    redirectUrl.searchParams.set('error', error);
+    redirectUrl.searchParams.set('error_description', description);
+    if (state) {
+      redirectUrl.searchParams.set('state', state as string);
+    }
+    res.redirect(redirectUrl.toString());
+  };
+
   if (response_type !== 'code') {
-    return res.status(400).send('Only authorization code flow is supported');
+    return sendError('unsupported_response_type', 'Only authorization code flow is supported');
   }
 
-  // Generate authorization code
-  const code = `demo_code_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-  const expiresAt = Date.now() + 10 * 60 * 1000; // 10 minutes
+  // PKCE is required for public clients
+  if (!code_challenge && client.type === 'public') {
+    return sendError('invalid_request', 'Missing code_challenge (PKCE is required)');
+  }
 
-  // Store code
-  authCodes.set(code, {
-    code,
+  if (code_challenge && code_challenge_method !== 'S256') {
+    return sendError('invalid_request', 'Only S256 code_challenge_method is supported');
+  }
+
+  // Unknown scopes are ignored (RFC 6749 3.3) - the token response lists what was granted
+  const requestedScopes = String(scope || 'openid email profile').split(' ');
+  const scopes = requestedScopes.filter(
+    (name, index) => SUPPORTED_SCOPES[name] && requestedScopes.indexOf(name) === index
+  );
+
+  const requestId = randomBytes(16).toString('base64url');
+  pendingAuthorizations.set(requestId, {
+    clientId: client.clientId,
     redirectUri: redirect_uri as string,
-    expiresAt,
+    state: state ? (state as string) : undefined,
+    scopes,
+    nonce: nonce ? (nonce as string) : undefined,
+    codeChallenge: code_challenge ? (code_challenge as string) : undefined,
+    expiresAt: Date.now() + AUTHORIZATION_TTL * 1000,
   });
 
-  // Render simple login form
+  // Already signed in at the provider: that account is preselected (ended by /end_session)
+  const providerSession = getProviderSession(req);
+  const selectedUser = (providerSession && findUser(providerSession.userId)) || TEST_USERS[0];
+
+  const userOptions = TEST_USERS.map((user) => `
+          <label class="option">
+            <input type="radio" name="user" value="${escapeHtml(user.sub)}" ${user === selectedUser ? 'checked' : ''} />
+            <span><strong>${escapeHtml(user.name)}</strong><br><small>${escapeHtml(user.email)}${user.email_verified ? '' : ' (unverified)'}</small></span>
+          </label>`).join('');
+
+  // openid can't be unchecked - without it this isn't a sign in
+  const scopeOptions = scopes.map((name) => `
+          <label class="option">
+            <input type="checkbox" name="scope" value="${name}" checked ${name === 'openid' ? 'disabled' : ''} />
+            <span><code>${name}</code> - ${SUPPORTED_SCOPES[name]}</span>
+          </label>`).join('');
+
+  // Render consent screen
   res.send(`
     <!DOCTYPE html>
     <html>
@@ -58,6 +166,16 @@ export function authorizeHandler(req: Request, res: Response) {
         h1 {
           margin-top: 0;
         }
+        h2 {
+          font-size: 16px;
+          margin-bottom: 0.5rem;
+        }
+        .option {
+          display: flex;
+          gap: 0.5rem;
+          align-items: flex-start;
+          padding: 0.25rem 0;
+        }
         button {
           width: 100%;
           padding: 12px;
@@ -72,6 +190,11 @@ export function authorizeHandler(req: Request, res: Response) {
         button:hover {
           background: #0056CC;
         }
+        button.deny {
+          background: #E5E5EA;
+          color: #000;
+          margin-top: 0.5rem;
+        }
         .info {
           font-size: 14px;
           color: #666;
@@ -82,16 +205,18 @@ export function authorizeHandler(req: Request, res: Response) {
     <body>
       <div class="container">
         <h1>Demo OAuth Provider</h1>
-        <p>This is a mock OAuth provider for testing.</p>
+        <p><strong>${escapeHtml(client_id as string)}</strong> wants to access your account.</p>
         <form method="POST" action="/demo/provider/authorize">
-          <input type="hidden" name="code" value="${code}" />
-          <input type="hidden" name="state" value="${state || ''}" />
-          <input type="hidden" name="redirect_uri" value="${redirect_uri}" />
-          <button type="submit">Sign In with Demo Provider</button>
+          <input type="hidden" name="request_id" value="${requestId}" />
+          <h2>${providerSession ? 'Continue as' : 'Sign in as'}</h2>
+          ${userOptions}
+          <h2>Allow access to</h2>
+          ${scopeOptions || '<p class="info">No scopes requested</p>'}
+          <button type="submit" name="decision" value="allow">Allow</button>
+          <button type="submit" name="decision" value="deny" class="deny">Deny</button>
         </form>
         <div class="info">
-          Client ID: ${client_id}<br>
-          Scope: ${scope || 'openid email profile'}
+          Redirect URI: ${escapeHtml(redirect_uri as string)}
         </div>
       </div>
     </body>
@@ -99,38 +224,73 @@ export function authorizeHandler(req: Request, res: Response) {
   `);
 }
 
-// Handle form submission
+// Handle the consent decision
 export function authorizePostHandler(req: Request, res: Response) {
-  const { code, state, redirect_uri } = req.body;
+  const { request_id, decision, user } = req.body;
 
-  if (!code || !redirect_uri) {
-    return res.status(400).send('Missing required parameters');
+  const pending = request_id ? pendingAuthorizations.get(request_id) : undefined;
+  // One decision per consent screen
+  pendingAuthorizations.delete(request_id);
+  if (!pending || Date.now() > pending.expiresAt) {
+    return res.status(400).send('Authorization request expired, start the sign in again');
   }
 
-  // Verify code exists and hasn't expired
-  const storedCode = authCodes.get(code);
-  if (!storedCode) {
-    return res.status(400).send('Invalid authorization code');
+  // Keeps the redirect URI's own query
+  const redirectUrl = new URL(pending.redirectUri);
+  if (pending.state) {
+    redirectUrl.searchParams.set('state', pending.state);
   }
 
-  if (Date.now() > storedCode.expiresAt) {
-    authCodes.delete(code);
-    return res.status(400).send('Authorization code expired');
+  if (decision !== 'allow') {
+    redirectUrl.searchParams.set('error', 'access_denied');
+    redirectUrl.searchParams.set('error_description', 'The user denied the request');
+    return res.redirect(redirectUrl.toString());
   }
 
-  // Remove code (one-time use)
-  authCodes.delete(code);
+  const testUser = findUser(user);
+  if (!testUser) {
+    return res.status(400).send('Unknown user');
+  }
 
-  // Redirect to callback with code
-  const params = new URLSearchParams({
-    code: code,
-    state: state || '',
+  // Granted: what the user left checked, out of what was requested (openid can't be unchecked)
+  const checked = ([] as string[]).concat(req.body.scope || []);
+  const scopes = pending.scopes.filter((name) => name === 'openid' || checked.includes(name));
+
+  // Picking another account switches the provider session
+  let providerSession = getProviderSession(req);
+  if (!providerSession || providerSession.userId !== testUser.sub) {
+    providerSession = createProviderSession(res, testUser.sub);
+  }
+
+  const code = `demo_code_${randomBytes(16).toString('base64url')}`;
+  authCodes.set(code, {
+    code,
+    clientId: pending.clientId,
+    redirectUri: pending.redirectUri,
+    codeChallenge: pending.codeChallenge,
+    userId: testUser.sub,
+    scopes,
+    nonce: pending.nonce,
+    authTime: providerSession.authTime,
+    expiresAt: Date.now() + AUTHORIZATION_TTL * 1000,
   });
 
-  res.redirect(`${redirect_uri}?${params.toString()}`);
+  // Code stays stored until it is exchanged at the token endpoint
+
+  // Redirect to callback with code
+  redirectUrl.searchParams.set('code', code);
+  res.redirect(redirectUrl.toString());
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
 }
 
-// Clean up expired codes periodically
+// Clean up expired codes and consent screens periodically
 setInterval(() => {
   const now = Date.now();
   for (const [code, data] of authCodes.entries()) {
@@ -138,4 +298,9 @@ setInterval(() => {
       authCodes.delete(code);
     }
   }
-}, 60 * 1000); // Run every minute
+  for (const [requestId, data] of pendingAuthorizations.entries()) {
+    if (now > data.expiresAt) {
+      pendingAuthorizations.delete(requestId);
+    }
+  }
+}, 60 * 1000).unref(); // Run every minute
@@ -0,0 +1,156 @@
+/**
+ * Client Registry
+ * Registered clients of the demo provider. Set DEMO_CLIENTS to a JSON file with an
+ * array of clients to replace the defaults, or APP_URL to move the default clients'
+ * redirect URIs (default: http://localhost:5173).
+ */
+
+import type { Request } from 'express';
+import { readFileSync } from 'fs';
+import { timingSafeEqual } from 'crypto';
+
+export interface Client {
+  clientId: string;
+
+  /** Confidential clients authenticate with their secret at the token endpoint */
+  type: 'public' | 'confidential';
+  clientSecret?: string;
+
+  /** Allowed `redirect_uri` values (exact match; loopback URIs match on any port) */
+  redirectUris: string[];
+
+  /** Allowed `post_logout_redirect_uri` values */
+  postLogoutRedirectUris?: string[];
+}
+
+/**
+ * Outcome of client authentication at the token/revocation endpoints
+ */
+export type ClientAuthentication =
+  | { client: Client }
+  | { error: 'invalid_client'; description: string; basic: boolean };
+
+const APP_URL = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+
+const DEFAULT_CLIENTS: Client[] = [
+  {
+    // The demo app (MockProvider, OidcProvider): PKCE, no secret
+    clientId: 'demo-client-id',
+    type: 'public',
+    redirectUris: [`${APP_URL}/auth/callback`, `${APP_URL}/native-callback`],
+    postLogoutRedirectUris: [`${APP_URL}/`, `${APP_URL}/native-logout`],
+  },
+  {
+    // packages/server demo (/demo/server, /demo/bff): the secret stays on the server
+    clientId: 'demo-confidential-client',
+    type: 'confidential',
+    clientSecret: 'demo-client-secret',
+    redirectUris: [`${APP_URL}/auth/callback`, `${APP_URL}/native-callback`],
+    postLogoutRedirectUris: [`${APP_URL}/`, `${APP_URL}/native-logout`],
+  },
+];
+
+export const CLIENTS: Client[] = loadClients();
+
+/**
+ * Registered client by id
+ */
+export function findClient(clientId: unknown): Client | null {
+  return CLIENTS.find((client) => client.clientId === clientId) || null;
+}
+
+/**
+ * Whether a redirect URI is registered for the client
+ * Loopback URIs match on any port (RFC 8252 7.3) - dev servers pick their own.
+ */
+export function isRedirectUriAllowed(registered: string[], redirectUri: string): boolean {
+  return registered.some((candidate) => candidate === redirectUri || sameLoopbackUri(candidate, redirectUri));
+}
+
+/**
+ * Authenticate the client of a token or revocation request
+ * client_secret_basic (Authorization header) or client_secret_post (body); public
+ * clients only identify themselves with client_id (RFC 6749 2.3, 3.2.1).
+ */
+export function authenticateClient(req: Request): ClientAuthentication {
+  let clientId: string | undefined = req.body.client_id;
+  let clientSecret: string | undefined = req.body.client_secret;
+
+  const authHeader = req.headers.authorization;
+  const basic = !!authHeader?.startsWith('Basic ');
+  if (basic) {
+    const decoded = Buffer.from(authHeader!.substring(6), 'base64').toString();
+    const separator = decoded.indexOf(':');
+    if (separator === -1) {
+      return { error: 'invalid_client', description: 'Malformed Basic credentials', basic };
+    }
+    clientId = decodeURIComponent(decoded.substring(0, separator));
+    clientSecret = decodeURIComponent(decoded.substring(separator + 1));
+  }
+
+  if (!clientId) {
+    return { error: 'invalid_client', description: 'Missing client_id', basic };
+  }
+
+  const client = findClient(clientId);
+  if (!client) {
+    return { error: 'invalid_client', description: 'Unknown client', basic };
+  }
+
+  if (client.type === 'confidential' && !secretMatches(client.clientSecret, clientSecret)) {
+    return {
+      error: 'invalid_client',
+      description: clientSecret ? 'Invalid client secret' : 'Client authentication required',
+      basic,
+    };
+  }
+
+  return { client };
+}
+
+function secretMatches(expected: string | undefined, actual: string | undefined): boolean {
+  if (!expected || !actual) {
+    return false;
+  }
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function sameLoopbackUri(registered: string, requested: string): boolean {
+  try {
+    const a = new URL(registered);
+    const b = new URL(requested);
+    const loopback = ['localhost', '127.0.0.1', '[::1]'];
+    return (
+      loopback.includes(a.hostname) &&
+      a.hostname === b.hostname &&
+      a.protocol === b.protocol &&
+      a.pathname === b.pathname &&
+      a.search === b.search
+    );
+  } catch {
+    return false;
+  }
+}
+
+function loadClients(): Client[] {
+  const file = process.env.DEMO_CLIENTS;
+  if (!file) {
+    return DEFAULT_CLIENTS;
+  }
+
+  const clients = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(clients) || clients.length === 0) {
+    throw new Error(`DEMO_CLIENTS (${file}) must contain a non-empty array of clients`);
+  }
+  for (const client of clients) {
+    if (typeof client?.clientId !== 'string' || !Array.isArray(client.redirectUris)) {
+      throw new Error(`DEMO_CLIENTS (${file}): every client needs a clientId and redirectUris`);
+    }
+    if (client.type === 'confidential' && typeof client.clientSecret !== 'string') {
+      throw new Error(`DEMO_CLIENTS (${file}): confidential client ${client.clientId} needs a clientSecret`);
+    }
+  }
+  return clients;
+}
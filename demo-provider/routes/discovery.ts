@@ -0,0 +1,38 @@
+/**
+ * OpenID Connect Discovery
+ * GET /demo/provider/.well-known/openid-configuration
+ */
+
+import type { Request, Response } from 'express';
+import { SUPPORTED_SCOPES } from './users.js';
+
+// `iss` of every token - discovery lives at `${ISSUER}/.well-known/openid-configuration`
+export const ISSUER = (process.env.ISSUER || `http://localhost:${process.env.PORT || 3001}/demo/provider`).replace(
+  /\/$/,
+  ''
+);
+
+export function discoveryHandler(req: Request, res: Response) {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    userinfo_endpoint: `${ISSUER}/userinfo`,
+    jwks_uri: `${ISSUER}/jwks`,
+    revocation_endpoint: `${ISSUER}/revoke`,
+    end_session_endpoint: `${ISSUER}/end_session`,
+    scopes_supported: Object.keys(SUPPORTED_SCOPES),
+    response_types_supported: ['code'],
+    response_modes_supported: ['query'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+    revocation_endpoint_auth_methods_supported: ['none', 'client_secret_basic', 'client_secret_post'],
+    code_challenge_methods_supported: ['S256'],
+    claims_supported: [
+      'iss', 'sub', 'aud', 'exp', 'iat', 'auth_time', 'nonce', 'at_hash',
+      'email', 'email_verified', 'name', 'given_name', 'family_name', 'picture',
+    ],
+  });
+}
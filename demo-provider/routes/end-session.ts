@@ -0,0 +1,74 @@
+/**
+ * OpenID Connect RP-Initiated Logout Endpoint
+ * GET /demo/provider/end_session
+ */
+
+import type { Request, Response } from 'express';
+import { endProviderSession } from './provider-session.js';
+import { ISSUER } from './discovery.js';
+import { verifyJwt } from './keys.js';
+import { findClient, isRedirectUriAllowed } from './clients.js';
+
+export function endSessionHandler(req: Request, res: Response) {
+  const { id_token_hint, client_id, post_logout_redirect_uri, state } = req.query;
+
+  // An expired ID token is still a valid hint (OpenID Connect RP-Initiated Logout 2)
+  let hintClientId: string | undefined;
+  if (id_token_hint) {
+    const claims = verifyJwt(id_token_hint as string, true);
+    if (!claims || claims.iss !== ISSUER) {
+      return res.status(400).send('Invalid id_token_hint');
+    }
+    hintClientId = claims.aud;
+  }
+
+  if (client_id && hintClientId && client_id !== hintClientId) {
+    return res.status(400).send('client_id does not match the id_token_hint audience');
+  }
+
+  // Redirects only go to URIs the client registered - the client comes from client_id or the hint
+  const client = findClient(client_id || hintClientId);
+  if (post_logout_redirect_uri) {
+    if (!client) {
+      return res.status(400).send('post_logout_redirect_uri requires client_id or id_token_hint');
+    }
+    if (!isRedirectUriAllowed(client.postLogoutRedirectUris || [], post_logout_redirect_uri as string)) {
+      return res.status(400).send('post_logout_redirect_uri is not registered for this client');
+    }
+  }
+
+  // The demo provider has one login session per browser - the hint only has to be ours
+  const ended = endProviderSession(req, res);
+
+  if (post_logout_redirect_uri) {
+    const redirectUrl = new URL(post_logout_redirect_uri as string);
+    if (state) {
+      redirectUrl.searchParams.set('state', state as string);
+    }
+    return res.redirect(redirectUrl.toString());
+  }
+
+  // No redirect: show the logout result
+  res.send(`
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>Demo OAuth Logout</title>
+      <style>
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+          display: flex;
+          justify-content: center;
+          align-items: center;
+          min-height: 100vh;
+          margin: 0;
+          background: #f5f5f5;
+        }
+      </style>
+    </head>
+    <body>
+      <p>${ended ? 'You have been signed out of the Demo Provider.' : 'You were not signed in to the Demo Provider.'}</p>
+    </body>
+    </html>
+  `);
+}
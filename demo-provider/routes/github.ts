@@ -0,0 +1,181 @@
+/**
+ * GitHub OAuth Stub
+ * GET  /demo/github/login/oauth/authorize    - auto-approves, redirects back with code and state
+ * POST /demo/github/login/oauth/access_token - GitHub's token endpoint (needs the client secret)
+ * POST /demo/github/exchange                 - app backend exchange endpoint (adds the secret)
+ * GET  /demo/github/api/user                 - REST API (private email, like most accounts)
+ * GET  /demo/github/api/user/emails
+ *
+ * Mimics GitHub's quirks: form-encoded token responses unless Accept: application/json,
+ * errors with status 200, and refresh tokens only in expiring-token mode
+ * (set GITHUB_EXPIRING_TOKENS=1).
+ */
+
+import type { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+
+const CLIENT_ID = 'demo-github-client-id';
+const CLIENT_SECRET = 'demo-github-client-secret';
+
+// GitHub Apps with expiring user tokens: 8 hours, refresh tokens 6 months
+const EXPIRING_TOKENS = process.env.GITHUB_EXPIRING_TOKENS === '1';
+const ACCESS_TOKEN_TTL = 8 * 60 * 60;
+const REFRESH_TOKEN_TTL = 15897600;
+
+interface GitHubAuthCode {
+  redirectUri: string;
+  scope: string;
+  codeChallenge?: string;
+  expiresAt: number;
+}
+
+// In-memory storage (in production this is GitHub)
+const authCodes = new Map<string, GitHubAuthCode>();
+const accessTokens = new Map<string, { scope: string; expiresAt?: number }>();
+const refreshTokens = new Map<string, { scope: string; expiresAt: number }>();
+
+const STUB_USER = {
+  id: 583231,
+  login: 'octocat',
+  name: 'The Octocat',
+  email: null,
+  avatar_url: 'https://avatars.githubusercontent.com/u/583231?v=4',
+  html_url: 'https://github.com/octocat',
+};
+
+const STUB_EMAILS = [
+  { email: 'octocat@users.noreply.github.com', primary: false, verified: true, visibility: null },
+  { email: 'octocat@example.com', primary: true, verified: true, visibility: 'private' },
+];
+
+export function githubAuthorizeHandler(req: Request, res: Response) {
+  const { client_id, redirect_uri, state, scope, code_challenge } = req.query;
+
+  if (client_id !== CLIENT_ID) {
+    return res.status(404).send('Unknown client_id');
+  }
+  if (!redirect_uri) {
+    return res.status(400).send('Missing redirect_uri');
+  }
+
+  const code = randomBytes(10).toString('hex');
+  authCodes.set(code, {
+    redirectUri: redirect_uri as string,
+    scope: (scope as string) || '',
+    codeChallenge: code_challenge as string | undefined,
+    expiresAt: Date.now() + 10 * 60 * 1000,
+  });
+
+  const redirectUrl = new URL(redirect_uri as string);
+  redirectUrl.searchParams.set('code', code);
+  if (state) {
+    redirectUrl.searchParams.set('state', state as string);
+  }
+  res.redirect(redirectUrl.toString());
+}
+
+export function githubAccessTokenHandler(req: Request, res: Response) {
+  const { client_id, client_secret } = req.body;
+  const result =
+    client_id === CLIENT_ID && client_secret === CLIENT_SECRET
+      ? grant(req.body)
+      : { error: 'incorrect_client_credentials', error_description: 'The client_id and/or client_secret passed are incorrect.' };
+
+  // Form-encoded unless the client asks for JSON
+  if (req.accepts(['application/x-www-form-urlencoded', 'application/json']) === 'application/json') {
+    return res.json(result);
+  }
+  res.type('application/x-www-form-urlencoded').send(new URLSearchParams(result as Record<string, string>).toString());
+}
+
+/**
+ * What an app backend does: add the client credentials and forward to GitHub
+ */
+export function githubExchangeHandler(req: Request, res: Response) {
+  const { grant_type, code, redirect_uri, code_verifier, refresh_token } = req.body;
+  res.json(grant({ grant_type, code, redirect_uri, code_verifier, refresh_token }));
+}
+
+export function githubUserHandler(req: Request, res: Response) {
+  if (!authenticate(req, res)) {
+    return;
+  }
+  res.json(STUB_USER);
+}
+
+export function githubEmailsHandler(req: Request, res: Response) {
+  const scope = authenticate(req, res);
+  if (scope === null) {
+    return;
+  }
+  if (!scope.split(/[ ,]/).includes('user:email') && !scope.split(/[ ,]/).includes('user')) {
+    return res.status(404).json({ message: 'Not Found' });
+  }
+  res.json(STUB_EMAILS);
+}
+
+function grant(body: Record<string, string | undefined>): Record<string, string | number> {
+  if (body.grant_type === 'refresh_token') {
+    const stored = body.refresh_token ? refreshTokens.get(body.refresh_token) : undefined;
+    if (!EXPIRING_TOKENS || !stored || Date.now() > stored.expiresAt) {
+      return { error: 'bad_refresh_token', error_description: 'The refresh token passed is incorrect or expired.' };
+    }
+    refreshTokens.delete(body.refresh_token!);
+    return issueTokens(stored.scope);
+  }
+
+  const authCode = body.code ? authCodes.get(body.code) : undefined;
+  if (body.code) {
+    authCodes.delete(body.code);
+  }
+  if (!authCode || Date.now() > authCode.expiresAt) {
+    return { error: 'bad_verification_code', error_description: 'The code passed is incorrect or expired.' };
+  }
+  if (body.redirect_uri && body.redirect_uri !== authCode.redirectUri) {
+    return { error: 'redirect_uri_mismatch', error_description: 'The redirect_uri MUST match the registered callback URL for this application.' };
+  }
+  if (authCode.codeChallenge) {
+    const challenge = createHash('sha256').update(body.code_verifier || '').digest('base64url');
+    if (challenge !== authCode.codeChallenge) {
+      return { error: 'bad_verification_code', error_description: 'The code_verifier does not match the code_challenge.' };
+    }
+  }
+
+  return issueTokens(authCode.scope);
+}
+
+function issueTokens(scope: string): Record<string, string | number> {
+  const accessToken = `gho_${randomBytes(18).toString('hex')}`;
+
+  if (!EXPIRING_TOKENS) {
+    accessTokens.set(accessToken, { scope });
+    return { access_token: accessToken, token_type: 'bearer', scope };
+  }
+
+  const refreshToken = `ghr_${randomBytes(30).toString('hex')}`;
+  accessTokens.set(accessToken, { scope, expiresAt: Date.now() + ACCESS_TOKEN_TTL * 1000 });
+  refreshTokens.set(refreshToken, { scope, expiresAt: Date.now() + REFRESH_TOKEN_TTL * 1000 });
+  return {
+    access_token: accessToken,
+    expires_in: ACCESS_TOKEN_TTL,
+    refresh_token: refreshToken,
+    refresh_token_expires_in: REFRESH_TOKEN_TTL,
+    token_type: 'bearer',
+    scope,
+  };
+}
+
+/**
+ * Scope of the request's bearer token, or null after sending a 401
+ */
+function authenticate(req: Request, res: Response): string | null {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.replace(/^(Bearer|token) /, '') || '';
+  const stored = accessTokens.get(token);
+
+  if (!stored || (stored.expiresAt && Date.now() > stored.expiresAt)) {
+    res.status(401).json({ message: 'Bad credentials' });
+    return null;
+  }
+  return stored.scope;
+}
@@ -0,0 +1,75 @@
+/**
+ * Native Handoff Endpoint
+ * POST /demo/provider/handoff        - browser session parks a sign-in result, gets a code
+ * POST /demo/provider/handoff/redeem - WebView exchanges the code for the result
+ *
+ * Stands in for the app backend that RemoteHandoffStore talks to.
+ */
+
+import type { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+
+// Handoff codes are only needed for the moment the deeplink takes (seconds)
+const HANDOFF_CODE_TTL = 60;
+
+interface Handoff {
+  result: Record<string, unknown>;
+  state: string;
+  challenge: string;
+  expiresAt: number;
+}
+
+// In-memory storage for handoffs (in production, use Redis/DB)
+const handoffs = new Map<string, Handoff>();
+
+export function handoffCreateHandler(req: Request, res: Response) {
+  const { result, state, challenge } = req.body;
+
+  if (!result?.access_token || !state || !challenge) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing result, state or challenge' });
+  }
+
+  const code = randomBytes(32).toString('base64url');
+  handoffs.set(code, {
+    result,
+    state,
+    challenge,
+    expiresAt: Date.now() + HANDOFF_CODE_TTL * 1000,
+  });
+
+  res.json({ code, expires_in: HANDOFF_CODE_TTL });
+}
+
+export function handoffRedeemHandler(req: Request, res: Response) {
+  const { code, state, verifier } = req.body;
+
+  if (!code || !state || !verifier) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing code, state or verifier' });
+  }
+
+  // Single use: gone after the first attempt, whether it succeeds or not
+  const handoff = handoffs.get(code);
+  handoffs.delete(code);
+
+  if (!handoff || Date.now() > handoff.expiresAt) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid or expired handoff code' });
+  }
+
+  // Bound to the WebView flow that started the sign in
+  const challenge = createHash('sha256').update(verifier).digest('base64url');
+  if (handoff.state !== state || handoff.challenge !== challenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Handoff code does not belong to this flow' });
+  }
+
+  res.json({ result: handoff.result });
+}
+
+// Clean up expired handoffs periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [code, handoff] of handoffs.entries()) {
+    if (now > handoff.expiresAt) {
+      handoffs.delete(code);
+    }
+  }
+}, 60 * 1000).unref(); // Run every minute
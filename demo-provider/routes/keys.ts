@@ -0,0 +1,115 @@
+/**
+ * Signing Keys
+ * GET  /demo/provider/jwks        - public keys (JWKS)
+ * POST /demo/provider/keys/rotate - rotate now (exercises your client's JWKS refetch)
+ *
+ * RS256 keys rotate every KEY_ROTATION_INTERVAL seconds. The previous key stays
+ * published, so tokens signed before a rotation keep verifying.
+ */
+
+import type { Request, Response } from 'express';
+import { generateKeyPairSync, randomBytes, sign, verify, type KeyObject } from 'crypto';
+
+// Key lifetime in seconds (set KEY_ROTATION_INTERVAL=60 to watch rotations happen)
+const KEY_ROTATION_INTERVAL = parseInt(process.env.KEY_ROTATION_INTERVAL || '86400', 10);
+
+// Published keys: the signing key plus the retired one
+const PUBLISHED_KEYS = 2;
+
+interface SigningKey {
+  kid: string;
+  privateKey: KeyObject;
+  publicKey: KeyObject;
+  createdAt: number;
+}
+
+// Newest first (in production, use a KMS/HSM)
+const keys: SigningKey[] = [];
+
+/**
+ * Start signing with a new key (retires the current one)
+ */
+export function rotateKeys(): SigningKey {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  keys.unshift({ kid: randomBytes(8).toString('hex'), privateKey, publicKey, createdAt: Date.now() });
+  keys.length = Math.min(keys.length, PUBLISHED_KEYS);
+  return keys[0];
+}
+
+/**
+ * Key to sign with, rotating when it's due
+ */
+function signingKey(): SigningKey {
+  if (!keys.length || Date.now() - keys[0].createdAt > KEY_ROTATION_INTERVAL * 1000) {
+    return rotateKeys();
+  }
+  return keys[0];
+}
+
+/**
+ * Sign a JWT with the current key (RS256)
+ * @param typ Header `typ` ('at+jwt' for access tokens, RFC 9068)
+ */
+export function signJwt(payload: Record<string, unknown>, typ: string = 'JWT'): string {
+  const key = signingKey();
+  const header = { alg: 'RS256', typ, kid: key.kid };
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), key.privateKey);
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Payload of a JWT signed by a published key
+ * @param allowExpired Skip the `exp` check (id_token_hint may be expired)
+ * @returns null when malformed, signed by an unknown key, or expired
+ */
+export function verifyJwt(token: string, allowExpired: boolean = false): Record<string, any> | null {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedSignature) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+    const key = keys.find((candidate) => candidate.kid === header.kid);
+    if (!key || header.alg !== 'RS256') {
+      return null;
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    if (!verify('sha256', signingInput, key.publicKey, Buffer.from(encodedSignature, 'base64url'))) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+    if (!allowExpired && typeof payload.exp === 'number' && payload.exp * 1000 <= Date.now()) {
+      return null;
+    }
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+export function jwksHandler(req: Request, res: Response) {
+  // Make sure there is a key before the first token is signed
+  signingKey();
+
+  res.json({
+    keys: keys.map((key) => ({
+      ...key.publicKey.export({ format: 'jwk' }),
+      kid: key.kid,
+      use: 'sig',
+      alg: 'RS256',
+    })),
+  });
+}
+
+export function rotateKeysHandler(req: Request, res: Response) {
+  const key = rotateKeys();
+  res.json({ kid: key.kid });
+}
+
+function encodeSegment(value: Record<string, unknown>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
@@ -0,0 +1,35 @@
+/**
+ * Server Package Demo
+ * /demo/server - packages/server in token mode (BackendProvider without bff)
+ * /demo/bff    - packages/server in backend-for-frontend mode (BackendProvider with bff: true)
+ *
+ * Both use this demo provider as the upstream provider.
+ */
+
+import { OAuthServer, createExpressHandler, type UpstreamProvider } from '../../packages/server/index.js';
+
+export function createServerRoutes(baseUrl: string) {
+  const upstream: UpstreamProvider = {
+    tokenEndpoint: `${baseUrl}/demo/provider/token`,
+    userinfoEndpoint: `${baseUrl}/demo/provider/userinfo`,
+    revocationEndpoint: `${baseUrl}/demo/provider/revoke`,
+    // Confidential client of the demo provider's registry (routes/clients.ts)
+    clientId: 'demo-confidential-client',
+    clientSecret: 'demo-client-secret',
+  };
+
+  const tokenServer = new OAuthServer({
+    providers: { demo: upstream },
+  });
+
+  const bffServer = new OAuthServer({
+    providers: { demo: upstream },
+    // http://localhost - no Secure cookies
+    bff: { secure: false },
+  });
+
+  return {
+    serverHandler: createExpressHandler(tokenServer),
+    bffHandler: createExpressHandler(bffServer),
+  };
+}
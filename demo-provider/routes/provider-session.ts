@@ -0,0 +1,79 @@
+/**
+ * Provider Login Session
+ * The demo provider's own "you're signed in here" cookie - what RP-initiated logout
+ * (/demo/provider/end_session) ends.
+ */
+
+import type { Request, Response } from 'express';
+import { randomBytes } from 'crypto';
+
+const SESSION_COOKIE = 'demo_provider_session';
+
+// Login sessions last a day
+const SESSION_TTL = 24 * 60 * 60;
+
+export interface ProviderSession {
+  /** Signed-in test user */
+  userId: string;
+
+  /** When the user signed in (ms) - the `auth_time` claim */
+  authTime: number;
+
+  expiresAt: number;
+}
+
+// In-memory storage for login sessions (in production, use Redis/DB)
+const sessions = new Map<string, ProviderSession>();
+
+/**
+ * Start a login session and set its cookie
+ */
+export function createProviderSession(res: Response, userId: string): ProviderSession {
+  const id = randomBytes(24).toString('base64url');
+  const session = { userId, authTime: Date.now(), expiresAt: Date.now() + SESSION_TTL * 1000 };
+  sessions.set(id, session);
+  res.cookie(SESSION_COOKIE, id, { httpOnly: true, sameSite: 'lax', maxAge: SESSION_TTL * 1000 });
+  return session;
+}
+
+/**
+ * Login session of the request's cookie
+ */
+export function getProviderSession(req: Request): ProviderSession | null {
+  const id = readSessionCookie(req);
+  const session = id ? sessions.get(id) : undefined;
+  if (!session || Date.now() > session.expiresAt) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * End the request's login session and clear its cookie
+ * @returns Whether there was a session
+ */
+export function endProviderSession(req: Request, res: Response): boolean {
+  const id = readSessionCookie(req);
+  res.clearCookie(SESSION_COOKIE);
+  return id ? sessions.delete(id) : false;
+}
+
+function readSessionCookie(req: Request): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+}
+
+// Clean up expired sessions periodically
+setInterval(() => {
+  const now = Date.now();
+  for (const [id, session] of sessions.entries()) {
+    if (now > session.expiresAt) {
+      sessions.delete(id);
+    }
+  }
+}, 60 * 1000).unref(); // Run every minute
@@ -0,0 +1,33 @@
+/**
+ * OAuth 2.0 Token Revocation Endpoint (RFC 7009)
+ * POST /demo/provider/revoke
+ */
+
+import type { Request, Response } from 'express';
+import { revokeToken } from './token.js';
+import { authenticateClient } from './clients.js';
+
+export function revokeHandler(req: Request, res: Response) {
+  const { token } = req.body;
+
+  // Same client authentication as the token endpoint (RFC 7009 2.1)
+  const authentication = authenticateClient(req);
+  if ('error' in authentication) {
+    if (authentication.basic) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="demo-provider"');
+    }
+    return res.status(401).json({ error: authentication.error, error_description: authentication.description });
+  }
+
+  if (!token) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing token' });
+  }
+
+  // token_type_hint is only an optimization - both token kinds are looked up anyway.
+  // Unknown or already revoked tokens still get a 200 (RFC 7009 2.2).
+  // Another client's token: unauthorized_client (RFC 7009 2.1, the token stays valid)
+  if (revokeToken(token, authentication.client.clientId) === 'wrong_client') {
+    return res.status(400).json({ error: 'unauthorized_client', error_description: 'Token was issued to another client' });
+  }
+  res.status(200).end();
+}
@@ -0,0 +1,172 @@
+/**
+ * Supabase Auth (GoTrue) Stub
+ * GET  /demo/supabase/auth/v1/authorize - skips the upstream provider, redirects back with a code
+ * POST /demo/supabase/auth/v1/token     - grant_type=pkce | refresh_token
+ * GET  /demo/supabase/auth/v1/user
+ * POST /demo/supabase/auth/v1/logout
+ *
+ * Enough of the Supabase auth API for supabase-js (flowType: 'pkce') to run
+ * SupabaseProvider locally: createClient('http://localhost:3001/demo/supabase', 'demo-anon-key', ...)
+ */
+
+import type { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { signJwt } from './keys.js';
+
+const ACCESS_TOKEN_TTL = 3600;
+const AUTH_CODE_TTL = 5 * 60 * 1000;
+
+interface SupabaseAuthCode {
+  provider: string;
+  codeChallenge: string;
+  codeChallengeMethod: 's256' | 'plain';
+  expiresAt: number;
+}
+
+// In-memory storage (in production this is Supabase)
+const authCodes = new Map<string, SupabaseAuthCode>();
+const accessTokens = new Map<string, { provider: string; expiresAt: number }>();
+// Rotated tokens are kept, so reuse gets Supabase's refresh_token_already_used
+const refreshTokens = new Map<string, { provider: string; rotated: boolean }>();
+
+function stubUser(provider: string) {
+  return {
+    id: '7d4a1f52-3c0e-4c5b-9a57-2f1e0c9d8b31',
+    aud: 'authenticated',
+    role: 'authenticated',
+    email: 'demo@example.com',
+    app_metadata: { provider, providers: [provider] },
+    user_metadata: {
+      full_name: 'Demo User',
+      avatar_url: 'https://ui-avatars.com/api/?name=Demo+User&background=3ECF8E&color=fff',
+    },
+    created_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+function issueSession(provider: string) {
+  const user = stubUser(provider);
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + ACCESS_TOKEN_TTL;
+
+  // supabase-js decodes the access token (setSession reads `exp`), so it has to be a JWT
+  const accessToken = signJwt({
+    sub: user.id,
+    aud: user.aud,
+    role: user.role,
+    email: user.email,
+    app_metadata: user.app_metadata,
+    user_metadata: user.user_metadata,
+    session_id: randomBytes(16).toString('hex'),
+    iat: issuedAt,
+    exp: expiresAt,
+  });
+  const refreshToken = `sb_refresh_${randomBytes(16).toString('hex')}`;
+
+  accessTokens.set(accessToken, { provider, expiresAt: expiresAt * 1000 });
+  refreshTokens.set(refreshToken, { provider, rotated: false });
+
+  return {
+    access_token: accessToken,
+    token_type: 'bearer',
+    expires_in: ACCESS_TOKEN_TTL,
+    expires_at: expiresAt,
+    refresh_token: refreshToken,
+    user,
+  };
+}
+
+export function supabaseAuthorizeHandler(req: Request, res: Response) {
+  const { provider, redirect_to, code_challenge, code_challenge_method } = req.query;
+
+  if (!provider || !redirect_to) {
+    return res.status(400).json({ code: 400, error_code: 'validation_failed', msg: 'Missing provider or redirect_to' });
+  }
+
+  // PKCE flow only (the implicit flow would return tokens in the fragment)
+  if (!code_challenge) {
+    return res.status(400).json({ code: 400, error_code: 'validation_failed', msg: 'PKCE flow required (flowType: pkce)' });
+  }
+
+  const redirectUrl = new URL(redirect_to as string);
+
+  // ?provider=deny simulates the user declining at the upstream provider
+  if (provider === 'deny') {
+    redirectUrl.searchParams.set('error', 'access_denied');
+    redirectUrl.searchParams.set('error_description', 'The user denied the request');
+    return res.redirect(redirectUrl.toString());
+  }
+
+  const code = randomBytes(16).toString('hex');
+  authCodes.set(code, {
+    provider: provider as string,
+    codeChallenge: code_challenge as string,
+    codeChallengeMethod: code_challenge_method === 'plain' ? 'plain' : 's256',
+    expiresAt: Date.now() + AUTH_CODE_TTL,
+  });
+
+  // redirect_to keeps its own query (oauthkit_state)
+  redirectUrl.searchParams.set('code', code);
+  res.redirect(redirectUrl.toString());
+}
+
+export function supabaseTokenHandler(req: Request, res: Response) {
+  const grantType = req.query.grant_type;
+
+  if (grantType === 'pkce') {
+    const { auth_code, code_verifier } = req.body;
+    const authCode = authCodes.get(auth_code);
+    authCodes.delete(auth_code);
+
+    if (!authCode || Date.now() > authCode.expiresAt) {
+      return res.status(404).json({ code: 404, error_code: 'flow_state_not_found', msg: 'invalid flow state, no valid flow state found' });
+    }
+
+    const challenge =
+      authCode.codeChallengeMethod === 'plain'
+        ? code_verifier
+        : createHash('sha256').update(code_verifier || '').digest('base64url');
+    if (!code_verifier || challenge !== authCode.codeChallenge) {
+      return res.status(403).json({ code: 403, error_code: 'bad_code_verifier', msg: 'code challenge does not match previously saved code verifier' });
+    }
+
+    return res.json(issueSession(authCode.provider));
+  }
+
+  if (grantType === 'refresh_token') {
+    const { refresh_token } = req.body;
+    const stored = refreshTokens.get(refresh_token);
+    if (!stored) {
+      return res.status(400).json({ code: 400, error_code: 'refresh_token_not_found', msg: 'Invalid Refresh Token: Refresh Token Not Found' });
+    }
+    if (stored.rotated) {
+      return res.status(400).json({ code: 400, error_code: 'refresh_token_already_used', msg: 'Invalid Refresh Token: Already Used' });
+    }
+
+    // Rotate
+    stored.rotated = true;
+    return res.json(issueSession(stored.provider));
+  }
+
+  res.status(400).json({ code: 400, error_code: 'validation_failed', msg: 'Unsupported grant_type' });
+}
+
+export function supabaseUserHandler(req: Request, res: Response) {
+  const authHeader = req.headers.authorization;
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : '';
+  const stored = accessTokens.get(token);
+
+  if (!stored || Date.now() > stored.expiresAt) {
+    return res.status(401).json({ code: 401, error_code: 'bad_jwt', msg: 'invalid JWT' });
+  }
+
+  res.json(stubUser(stored.provider));
+}
+
+export function supabaseLogoutHandler(req: Request, res: Response) {
+  const authHeader = req.headers.authorization;
+  if (authHeader?.startsWith('Bearer ')) {
+    accessTokens.delete(authHeader.substring(7));
+  }
+  res.status(204).end();
+}
@@ -4,59 +4,284 @@
  */
 
 import type { Request, Response } from 'express';
+import { createHash, randomBytes } from 'crypto';
+import { consumeAuthCode } from './authorize.js';
+import { ISSUER } from './discovery.js';
+import { signJwt, verifyJwt } from './keys.js';
+import { findUser, userClaims } from './users.js';
+import { authenticateClient, type Client } from './clients.js';
 
-// In-memory storage for tokens (in production, use Redis/DB)
-const tokens = new Map<string, { accessToken: string; refreshToken: string; expiresAt: number }>();
+// Access token lifetime in seconds (set ACCESS_TOKEN_TTL=30 to exercise refresh quickly)
+const ACCESS_TOKEN_TTL = parseInt(process.env.ACCESS_TOKEN_TTL || '3600', 10);
+
+// Refresh token lifetime (30 days)
+const REFRESH_TOKEN_TTL = 30 * 24 * 60 * 60;
+
+/**
+ * What one authorization granted - shared by every token of its family
+ */
+export interface Grant {
+  familyId: string;
+  clientId: string;
+  userId: string;
+  scopes: string[];
+
+  /** When the user signed in (ms) */
+  authTime: number;
+}
+
+// In-memory storage for tokens (in production, use Redis/DB). Access tokens are signed
+// JWTs, the map is what makes them revocable.
+const tokens = new Map<
+  string,
+  { accessToken: string; refreshToken: string; grant: Grant; scopes: string[]; expiresAt: number }
+>();
+
+// Refresh tokens - rotated on every use. A token family is every refresh token
+// descended from one authorization; reusing a rotated token revokes the family.
+const refreshTokens = new Map<string, { grant: Grant; rotated: boolean; expiresAt: number }>();
+
+// Exchanged codes, kept until they would have expired: a replayed code revokes
+// the tokens it was exchanged for (RFC 6749 4.1.2)
+const redeemedCodes = new Map<string, { familyId: string; expiresAt: number }>();
+
+// How long a code is remembered after its exchange
+const REDEEMED_CODE_TTL = 10 * 60;
 
 export function tokenHandler(req: Request, res: Response) {
-  const { code, grant_type, redirect_uri, client_id } = req.body;
+  const { grant_type } = req.body;
 
-  // Validate parameters
-  if (grant_type !== 'authorization_code') {
+  if (!grant_type) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing grant_type' });
+  }
+
+  if (grant_type !== 'authorization_code' && grant_type !== 'refresh_token') {
     return res.status(400).json({ error: 'unsupported_grant_type' });
   }
 
+  const authentication = authenticateClient(req);
+  if ('error' in authentication) {
+    // Clients that tried Basic get the challenge back (RFC 6749 5.2)
+    if (authentication.basic) {
+      res.setHeader('WWW-Authenticate', 'Basic realm="demo-provider"');
+    }
+    return res.status(401).json({ error: authentication.error, error_description: authentication.description });
+  }
+
+  if (grant_type === 'authorization_code') {
+    return authorizationCodeGrant(req, res, authentication.client);
+  }
+  return refreshTokenGrant(req, res, authentication.client);
+}
+
+function authorizationCodeGrant(req: Request, res: Response, client: Client) {
+  const { code, redirect_uri, code_verifier } = req.body;
+
   if (!code) {
     return res.status(400).json({ error: 'invalid_request', error_description: 'Missing code' });
   }
 
-  // Generate tokens
-  const accessToken = `demo_access_token_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-  const refreshToken = `demo_refresh_token_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
-  const expiresIn = 3600; // 1 hour
-  const expiresAt = Date.now() + expiresIn * 1000;
+  if (!redirect_uri) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing redirect_uri' });
+  }
+
+  const redeemed = redeemedCodes.get(code);
+  if (redeemed) {
+    revokeFamily(redeemed.familyId);
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Authorization code was already used' });
+  }
+
+  // Single use: a failed exchange burns the code too
+  const authCode = consumeAuthCode(code);
+  if (!authCode) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid or expired authorization code' });
+  }
+
+  if (authCode.clientId !== client.clientId) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Authorization code was issued to another client' });
+  }
+
+  if (authCode.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'redirect_uri does not match the authorization request' });
+  }
+
+  // Verify PKCE: BASE64URL(SHA256(code_verifier)) must match the stored challenge.
+  // A verifier without a challenge is a downgrade attempt.
+  if (authCode.codeChallenge || code_verifier) {
+    const challenge = code_verifier ? createHash('sha256').update(code_verifier).digest('base64url') : null;
+    if (!challenge || challenge !== authCode.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const grant: Grant = {
+    familyId: `family_${randomBytes(12).toString('base64url')}`,
+    clientId: authCode.clientId,
+    userId: authCode.userId,
+    scopes: authCode.scopes,
+    authTime: authCode.authTime,
+  };
+  redeemedCodes.set(code, { familyId: grant.familyId, expiresAt: Date.now() + REDEEMED_CODE_TTL * 1000 });
+  res.json(issueTokens(grant, authCode.nonce));
+}
+
+function refreshTokenGrant(req: Request, res: Response, client: Client) {
+  const { refresh_token, scope } = req.body;
+
+  if (!refresh_token) {
+    return res.status(400).json({ error: 'invalid_request', error_description: 'Missing refresh_token' });
+  }
+
+  const stored = refreshTokens.get(refresh_token);
+  if (!stored || Date.now() > stored.expiresAt) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Invalid or expired refresh token' });
+  }
+
+  if (stored.grant.clientId !== client.clientId) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Refresh token was issued to another client' });
+  }
+
+  // A refresh may narrow the scope, never widen it (RFC 6749 6)
+  const scopes = scope ? String(scope).split(' ') : stored.grant.scopes;
+  if (scopes.some((name) => !stored.grant.scopes.includes(name))) {
+    return res.status(400).json({ error: 'invalid_scope', error_description: 'Scope exceeds the original grant' });
+  }
+
+  if (stored.rotated) {
+    // Reuse of a rotated token - assume it leaked and revoke the whole family
+    revokeFamily(stored.grant.familyId);
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Refresh token was already used' });
+  }
+
+  // Rotate: old refresh token can't be used again
+  stored.rotated = true;
+
+  // Refreshed ID tokens carry no nonce (OpenID Connect Core 12.2)
+  res.json(issueTokens(stored.grant, undefined, scopes));
+}
+
+/**
+ * Mint tokens for a grant: a signed access token (RFC 9068), a refresh token and,
+ * with the openid scope, a signed ID token
+ * @param nonce From the authorization request (code grant only)
+ * @param scopes Scopes of this access token (a refresh may narrow the grant's)
+ */
+function issueTokens(grant: Grant, nonce?: string, scopes: string[] = grant.scopes) {
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = signJwt({
+    iss: ISSUER,
+    sub: grant.userId,
+    aud: ISSUER,
+    client_id: grant.clientId,
+    scope: scopes.join(' '),
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL,
+    jti: randomBytes(12).toString('base64url'),
+  }, 'at+jwt');
+  const refreshToken = `demo_refresh_token_${randomBytes(24).toString('base64url')}`;
 
   // Store tokens (keyed by access token)
   tokens.set(accessToken, {
     accessToken,
     refreshToken,
-    expiresAt,
+    grant,
+    scopes,
+    expiresAt: Date.now() + ACCESS_TOKEN_TTL * 1000,
   });
 
-  // Return tokens
-  res.json({
+  refreshTokens.set(refreshToken, {
+    grant,
+    rotated: false,
+    expiresAt: Date.now() + REFRESH_TOKEN_TTL * 1000,
+  });
+
+  const response: Record<string, unknown> = {
     access_token: accessToken,
     refresh_token: refreshToken,
     token_type: 'Bearer',
-    expires_in: expiresIn,
-  });
+    expires_in: ACCESS_TOKEN_TTL,
+    scope: scopes.join(' '),
+  };
+
+  const user = findUser(grant.userId);
+  if (scopes.includes('openid') && user) {
+    response.id_token = signJwt({
+      ...userClaims(user, scopes),
+      iss: ISSUER,
+      aud: grant.clientId,
+      iat: now,
+      exp: now + ACCESS_TOKEN_TTL,
+      auth_time: Math.floor(grant.authTime / 1000),
+      ...(nonce ? { nonce } : {}),
+      at_hash: tokenHash(accessToken),
+    });
+  }
+
+  return response;
+}
+
+/**
+ * `at_hash`: left half of the access token's SHA-256, base64url (OpenID Connect Core 3.1.3.6)
+ */
+function tokenHash(token: string): string {
+  const digest = createHash('sha256').update(token).digest();
+  return digest.subarray(0, digest.length / 2).toString('base64url');
+}
+
+/**
+ * Revoke every access and refresh token of a family
+ */
+function revokeFamily(familyId: string) {
+  for (const [token, data] of tokens.entries()) {
+    if (data.grant.familyId === familyId) {
+      tokens.delete(token);
+    }
+  }
+  for (const [token, data] of refreshTokens.entries()) {
+    if (data.grant.familyId === familyId) {
+      refreshTokens.delete(token);
+    }
+  }
 }
 
 /**
- * Verify access token
+ * Revoke a token of a client (RFC 7009)
+ * A refresh token takes its whole family with it, an access token only itself.
+ * @returns 'unknown' for unknown tokens, 'wrong_client' for tokens of another client
  */
-export function verifyToken(accessToken: string): boolean {
+export function revokeToken(token: string, clientId: string): 'revoked' | 'unknown' | 'wrong_client' {
+  const grant = refreshTokens.get(token)?.grant || tokens.get(token)?.grant;
+  if (!grant) {
+    return 'unknown';
+  }
+  if (grant.clientId !== clientId) {
+    return 'wrong_client';
+  }
+
+  if (refreshTokens.has(token)) {
+    revokeFamily(grant.familyId);
+  } else {
+    tokens.delete(token);
+  }
+  return 'revoked';
+}
+
+/**
+ * Verify access token: signature and expiry, and that it wasn't revoked
+ * @returns The grant and scopes it was issued for, or null
+ */
+export function verifyToken(accessToken: string): { grant: Grant; scopes: string[] } | null {
   const tokenData = tokens.get(accessToken);
   if (!tokenData) {
-    return false;
+    return null;
   }
 
-  if (Date.now() > tokenData.expiresAt) {
+  if (Date.now() > tokenData.expiresAt || !verifyJwt(accessToken)) {
     tokens.delete(accessToken);
-    return false;
+    return null;
   }
 
-  return true;
+  return { grant: tokenData.grant, scopes: tokenData.scopes };
 }
 
 // Clean up expired tokens periodically
@@ -67,4 +292,14 @@ setInterval(() => {
       tokens.delete(token);
     }
   }
-}, 60 * 1000); // Run every minute
+  for (const [token, data] of refreshTokens.entries()) {
+    if (now > data.expiresAt) {
+      refreshTokens.delete(token);
+    }
+  }
+  for (const [code, data] of redeemedCodes.entries()) {
+    if (now > data.expiresAt) {
+      redeemedCodes.delete(code);
+    }
+  }
+}, 60 * 1000).unref(); // Run every minute
@@ -1,33 +1,36 @@
 /**
- * OAuth 2.0 UserInfo Endpoint (OpenID Connect style)
+ * OpenID Connect UserInfo Endpoint
  * GET /demo/provider/userinfo
  */
 
 import type { Request, Response } from 'express';
 import { verifyToken } from './token.js';
-
-// Fake user data
-const FAKE_USER = {
-  id: 'demo_user_123',
-  email: 'demo@example.com',
-  name: 'Demo User',
-  avatar_url: 'https://ui-avatars.com/api/?name=Demo+User&background=007AFF&color=fff',
-};
+import { findUser, userClaims } from './users.js';
 
 export function userinfoHandler(req: Request, res: Response) {
   // Get token from Authorization header
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
     return res.status(401).json({ error: 'invalid_token', error_description: 'Missing or invalid Authorization header' });
   }
 
   const accessToken = authHeader.substring(7); // Remove 'Bearer ' prefix
 
   // Verify token
-  if (!verifyToken(accessToken)) {
+  const verified = verifyToken(accessToken);
+  const user = verified && findUser(verified.grant.userId);
+  if (!verified || !user) {
+    res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
     return res.status(401).json({ error: 'invalid_token', error_description: 'Token expired or invalid' });
   }
 
-  // Return user info
-  res.json(FAKE_USER);
+  // UserInfo is an OpenID Connect resource (Core 5.3)
+  if (!verified.scopes.includes('openid')) {
+    res.setHeader('WWW-Authenticate', 'Bearer error="insufficient_scope", scope="openid"');
+    return res.status(403).json({ error: 'insufficient_scope', error_description: 'The openid scope is required' });
+  }
+
+  // Claims the granted scopes release
+  res.json(userClaims(user, verified.scopes));
 }
@@ -0,0 +1,100 @@
+/**
+ * Test Users
+ * Accounts to pick on the consent screen. Set DEMO_USERS to a JSON file with an
+ * array of users to replace the defaults.
+ */
+
+import { readFileSync } from 'fs';
+
+export interface TestUser {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  name: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+// Scopes the demo provider knows, and what they grant (anything else is ignored)
+export const SUPPORTED_SCOPES: Record<string, string> = {
+  openid: 'Sign you in with your Demo Provider account',
+  email: 'See your email address',
+  profile: 'See your name and profile picture',
+};
+
+const DEFAULT_USERS: TestUser[] = [
+  {
+    sub: 'demo_user_123',
+    email: 'demo@example.com',
+    email_verified: true,
+    name: 'Demo User',
+    given_name: 'Demo',
+    family_name: 'User',
+    picture: 'https://ui-avatars.com/api/?name=Demo+User&background=007AFF&color=fff',
+  },
+  {
+    sub: 'demo_user_456',
+    email: 'alice@example.com',
+    email_verified: true,
+    name: 'Alice Example',
+    given_name: 'Alice',
+    family_name: 'Example',
+    picture: 'https://ui-avatars.com/api/?name=Alice+Example&background=34C759&color=fff',
+  },
+  {
+    // Unverified email: apps shouldn't link accounts on it
+    sub: 'demo_user_789',
+    email: 'bob@example.com',
+    email_verified: false,
+    name: 'Bob Unverified',
+  },
+];
+
+export const TEST_USERS: TestUser[] = loadUsers();
+
+/**
+ * Test user by subject
+ */
+export function findUser(sub: string): TestUser | null {
+  return TEST_USERS.find((user) => user.sub === sub) || null;
+}
+
+/**
+ * Claims of a user that the granted scopes release (OpenID Connect Core 5.4)
+ */
+export function userClaims(user: TestUser, scopes: string[]): Record<string, unknown> {
+  const claims: Record<string, unknown> = { sub: user.sub };
+
+  if (scopes.includes('email')) {
+    claims.email = user.email;
+    claims.email_verified = user.email_verified ?? false;
+  }
+
+  if (scopes.includes('profile')) {
+    claims.name = user.name;
+    if (user.given_name) claims.given_name = user.given_name;
+    if (user.family_name) claims.family_name = user.family_name;
+    if (user.picture) claims.picture = user.picture;
+  }
+
+  return claims;
+}
+
+function loadUsers(): TestUser[] {
+  const file = process.env.DEMO_USERS;
+  if (!file) {
+    return DEFAULT_USERS;
+  }
+
+  const users = JSON.parse(readFileSync(file, 'utf8'));
+  if (!Array.isArray(users) || users.length === 0) {
+    throw new Error(`DEMO_USERS (${file}) must contain a non-empty array of users`);
+  }
+  for (const user of users) {
+    if (typeof user?.sub !== 'string' || typeof user.email !== 'string' || typeof user.name !== 'string') {
+      throw new Error(`DEMO_USERS (${file}): every user needs string sub, email and name`);
+    }
+  }
+  return users;
+}
@@ -0,0 +1,216 @@
+/**
+ * GitHubProvider against the GitHub stub (routes/github.ts), in expiring-token mode
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { GitHubProvider } from '../../packages/providers/github/index.js';
+import { BackendProvider } from '../../packages/providers/backend/index.js';
+import { OAuthServer } from '../../packages/server/index.js';
+import { OAuthManager } from '../../packages/core/oauth-manager.js';
+import { MemorySessionStore } from '../../packages/core/session-store.js';
+import { generateCodeVerifier, createCodeChallenge } from '../../packages/core/pkce.js';
+import { OAuthError } from '../../packages/core/errors.js';
+import type { OAuthUrlOptions } from '../../packages/core/types.js';
+import { startDemoProvider, redirectOf, type DemoProvider } from './helpers.js';
+
+// GitHub Apps with expiring user tokens (refresh tokens)
+process.env.GITHUB_EXPIRING_TOKENS = '1';
+
+const CLIENT_ID = 'demo-github-client-id';
+const REDIRECT_URI = 'https://app.example.com/auth/callback';
+
+/**
+ * Remembers the last authorize URL, so a test can follow it like a browser
+ */
+class RecordingGitHubProvider extends GitHubProvider {
+  lastOAuthUrl = '';
+
+  async getOAuthUrl(provider: string, redirectUri: string, state: string, options?: OAuthUrlOptions): Promise<string> {
+    this.lastOAuthUrl = await super.getOAuthUrl(provider, redirectUri, state, options);
+    return this.lastOAuthUrl;
+  }
+}
+
+describe('GitHubProvider', () => {
+  let demo: DemoProvider;
+
+  before(async () => {
+    demo = await startDemoProvider();
+  });
+
+  after(async () => {
+    await demo.close();
+  });
+
+  function createProvider(config: { exchange?: boolean; clientSecret?: string; scopes?: string[] } = {}) {
+    return new RecordingGitHubProvider({
+      clientId: CLIENT_ID,
+      baseUrl: `${demo.baseUrl}/demo/github`,
+      apiUrl: `${demo.baseUrl}/demo/github/api`,
+      exchangeEndpoint: config.exchange === false ? undefined : `${demo.baseUrl}/demo/github/exchange`,
+      clientSecret: config.clientSecret,
+      scopes: config.scopes,
+    });
+  }
+
+  async function signIn(provider: GitHubProvider) {
+    const verifier = generateCodeVerifier();
+    const url = await provider.getOAuthUrl('github', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(verifier),
+      codeChallengeMethod: 'S256',
+    });
+    const callback = await redirectOf(url);
+    assert.equal(callback.searchParams.get('state'), 'kit-state');
+
+    return provider.handleCallback(Object.fromEntries(callback.searchParams), {
+      codeVerifier: verifier,
+      redirectUri: REDIRECT_URI,
+    });
+  }
+
+  it('exchanges the code through the backend endpoint', async () => {
+    const result = await signIn(createProvider());
+
+    assert.match(result.access_token, /^gho_/);
+    assert.match(result.refresh_token!, /^ghr_/);
+    assert.equal(result.expires_in, 8 * 60 * 60);
+  });
+
+  it('exchanges the code directly with the client secret', async () => {
+    const result = await signIn(createProvider({ exchange: false, clientSecret: 'demo-github-client-secret' }));
+    assert.match(result.access_token, /^gho_/);
+
+    await assert.rejects(
+      signIn(createProvider({ exchange: false, clientSecret: 'wrong' })),
+      (error: OAuthError) => error.code === 'token_exchange_failed' && error.error === 'incorrect_client_credentials'
+    );
+  });
+
+  it('rejects a code with the wrong PKCE verifier', async () => {
+    const provider = createProvider();
+    const url = await provider.getOAuthUrl('github', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(generateCodeVerifier()),
+      codeChallengeMethod: 'S256',
+    });
+    const callback = await redirectOf(url);
+
+    await assert.rejects(
+      provider.handleCallback(Object.fromEntries(callback.searchParams), {
+        codeVerifier: generateCodeVerifier(),
+        redirectUri: REDIRECT_URI,
+      }),
+      (error: OAuthError) => error.code === 'token_exchange_failed' && error.error === 'bad_verification_code'
+    );
+  });
+
+  it('builds the user from /user and the primary verified email', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    const user = await provider.getUser(result.access_token);
+    assert.deepEqual(
+      { id: user.id, email: user.email, name: user.name, login: user.login },
+      { id: '583231', email: 'octocat@example.com', name: 'The Octocat', login: 'octocat' }
+    );
+  });
+
+  it('leaves the email out without the user:email scope', async () => {
+    const provider = createProvider({ scopes: ['read:user'] });
+    const result = await signIn(provider);
+
+    const user = await provider.getUser(result.access_token);
+    assert.equal(user.email, undefined);
+  });
+
+  it('refreshes with a rotating refresh token', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    const refreshed = await provider.refreshSession(result.refresh_token!);
+    assert.notEqual(refreshed.refresh_token, result.refresh_token);
+
+    // bad_refresh_token is reported as invalid_grant
+    await assert.rejects(
+      provider.refreshSession(result.refresh_token!),
+      (error: OAuthError) => error.code === 'expired_session' && error.error === 'invalid_grant'
+    );
+  });
+
+  it('ends the manager session when the refresh token was rotated away', async () => {
+    const provider = createProvider();
+    const manager = new OAuthManager({
+      appUrl: 'https://app.example.com',
+      deeplinkScheme: 'myapp',
+      providers: { github: provider },
+      sessionStore: new MemorySessionStore(),
+      autoRefresh: false,
+      crossTabSync: false,
+    });
+
+    // Sign in through the manager (the redirect itself is left to the test)
+    await manager.startNativeFlow('github');
+    const callback = await redirectOf(provider.lastOAuthUrl);
+    await manager.completeCallback(Object.fromEntries(callback.searchParams));
+
+    const session = await manager.getSession();
+    assert.equal(session?.user.login, 'octocat');
+
+    // Another client spends the refresh token
+    await provider.refreshSession(session!.refresh_token!);
+
+    const events: string[] = [];
+    manager.onAuthStateChange((event) => events.push(event));
+    assert.equal(await manager.refreshSession(), null);
+    assert.equal(await manager.getSession(), null);
+    assert.ok(events.includes('SESSION_EXPIRED'));
+  });
+
+  it('works as an OAuthServer upstream behind BackendProvider', async () => {
+    const server = new OAuthServer({
+      providers: {
+        github: {
+          tokenEndpoint: `${demo.baseUrl}/demo/github/login/oauth/access_token`,
+          clientId: CLIENT_ID,
+          clientSecret: 'demo-github-client-secret',
+          userinfoEndpoint: `${demo.baseUrl}/demo/github/api/user`,
+          mapUser: (user) => ({ id: String(user.id), email: user.email ?? undefined, name: user.name ?? user.login }),
+        },
+      },
+    });
+    const provider = new BackendProvider({
+      endpoint: 'https://api.app.example.com/oauth',
+      authorizeUrl: `${demo.baseUrl}/demo/github/login/oauth/authorize`,
+      clientId: CLIENT_ID,
+      provider: 'github',
+      scopes: ['read:user', 'user:email'],
+    });
+
+    // The bodies BackendProvider posts to /exchange and /refresh
+    const verifier = generateCodeVerifier();
+    const url = await provider.getOAuthUrl('github', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(verifier),
+      codeChallengeMethod: 'S256',
+    });
+    const code = (await redirectOf(url)).searchParams.get('code');
+    const exchange = await server.handle({
+      method: 'POST',
+      path: '/exchange',
+      headers: {},
+      body: { provider: 'github', code, redirect_uri: REDIRECT_URI, code_verifier: verifier },
+    });
+    assert.equal(exchange?.status, 200);
+    const tokens = exchange!.body as { access_token: string; refresh_token: string; user: { id: string; name: string } };
+    assert.match(tokens.access_token, /^gho_/);
+    assert.deepEqual(tokens.user, { id: '583231', email: undefined, name: 'The Octocat' });
+
+    const refresh = (refreshToken: string) =>
+      server.handle({ method: 'POST', path: '/refresh', headers: {}, body: { provider: 'github', refresh_token: refreshToken } });
+    assert.equal((await refresh(tokens.refresh_token))?.status, 200);
+
+    // bad_refresh_token is reported as invalid_grant
+    const spent = await refresh(tokens.refresh_token);
+    assert.equal(spent?.status, 400);
+    assert.equal((spent!.body as { error: string }).error, 'invalid_grant');
+  });
+});
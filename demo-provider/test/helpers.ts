@@ -0,0 +1,119 @@
+/**
+ * Test Helpers
+ * Runs the demo provider on a random port and drives its consent screen
+ */
+
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { OidcProvider, type OidcProviderConfig } from '../../packages/providers/oidc/index.js';
+import type { OAuthUrlOptions } from '../../packages/core/types.js';
+
+/**
+ * App URL the default clients are registered for (APP_URL)
+ */
+export const APP_URL = 'http://localhost:5173';
+
+export interface DemoProvider {
+  /** e.g. 'http://localhost:41234' */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Start the demo provider app
+ * ISSUER has to be known before the routes load, so the app is imported once the port is.
+ */
+export async function startDemoProvider(): Promise<DemoProvider> {
+  const server = createServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+
+  process.env.ISSUER = `${baseUrl}/demo/provider`;
+  const { createApp } = await import('../app.js');
+  server.on('request', createApp(baseUrl));
+
+  return {
+    baseUrl,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+/**
+ * OidcProvider for the demo app's client that remembers the last authorize URL,
+ * so a test can take a manager's flow through the consent screen
+ */
+export class RecordingOidcProvider extends OidcProvider {
+  lastOAuthUrl = '';
+
+  constructor(baseUrl: string, config: Partial<OidcProviderConfig> = {}) {
+    super({ issuer: `${baseUrl}/demo/provider`, clientId: 'demo-client-id', ...config });
+  }
+
+  async getOAuthUrl(provider: string, redirectUri: string, state: string, options?: OAuthUrlOptions): Promise<string> {
+    this.lastOAuthUrl = await super.getOAuthUrl(provider, redirectUri, state, options);
+    return this.lastOAuthUrl;
+  }
+}
+
+/**
+ * Follow an authorize URL through the consent screen ("Allow" as the first test user)
+ * @returns The redirect back to the client (code or error in the query)
+ */
+export async function authorize(authorizeUrl: string, decision: 'allow' | 'deny' = 'allow'): Promise<URL> {
+  const consent = await fetch(authorizeUrl, { redirect: 'manual' });
+  const html = await consent.text();
+  const requestId = html.match(/name="request_id" value="([^"]+)"/)?.[1];
+  const user = html.match(/name="user" value="([^"]+)"/)?.[1];
+  if (!requestId || !user) {
+    throw new Error(`No consent screen (${consent.status}): ${html}`);
+  }
+
+  const scopes = [...html.matchAll(/name="scope" value="([^"]+)"/g)].map((match) => match[1]);
+  const body = new URLSearchParams({ request_id: requestId, decision, user });
+  for (const scope of scopes) {
+    body.append('scope', scope);
+  }
+
+  const response = await fetch(new URL('/demo/provider/authorize', authorizeUrl), {
+    method: 'POST',
+    body,
+    redirect: 'manual',
+  });
+  return new URL(response.headers.get('location')!);
+}
+
+/**
+ * Follow a single redirect (e.g. a stub's authorize endpoint)
+ */
+export async function redirectOf(url: string): Promise<URL> {
+  const response = await fetch(url, { redirect: 'manual' });
+  const location = response.headers.get('location');
+  if (!location) {
+    throw new Error(`Expected a redirect from ${url}, got ${response.status}`);
+  }
+  return new URL(location);
+}
+
+/**
+ * sessionStorage/localStorage-compatible in-memory storage
+ */
+export function memoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index: number) => Array.from(items.keys())[index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      items.set(key, value);
+    },
+    removeItem: (key: string) => {
+      items.delete(key);
+    },
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * ID token verification (packages/core/oidc.ts) and the manager's nonce check,
+ * against the demo provider's signed ID tokens and JWKS
+ */
+
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyIdToken } from '../../packages/core/oidc.js';
+import { OAuthManager } from '../../packages/core/oauth-manager.js';
+import { MemorySessionStore } from '../../packages/core/session-store.js';
+import { FakeNativeBridge } from '../../packages/core/native-bridge.js';
+import { generateCodeVerifier, createCodeChallenge } from '../../packages/core/pkce.js';
+import { OAuthError } from '../../packages/core/errors.js';
+import type { OidcConfig } from '../../packages/core/types.js';
+import { startDemoProvider, authorize, RecordingOidcProvider, APP_URL, type DemoProvider } from './helpers.js';
+
+const REDIRECT_URI = `${APP_URL}/auth/callback`;
+
+const isInvalidIdToken = (reason: RegExp) => (error: OAuthError) =>
+  error.code === 'invalid_response' && error.error === 'invalid_id_token' && reason.test(error.message);
+
+// The demo provider reads ISSUER once: one server for the whole file
+let demo: DemoProvider;
+
+before(async () => {
+  demo = await startDemoProvider();
+});
+
+after(async () => {
+  await demo.close();
+});
+
+describe('verifyIdToken', () => {
+  let provider: RecordingOidcProvider;
+  let config: OidcConfig;
+
+  before(async () => {
+    provider = new RecordingOidcProvider(demo.baseUrl);
+    config = await provider.getOidcConfig();
+  });
+
+  /**
+   * ID token of a sign in with this nonce
+   */
+  async function issueIdToken(nonce: string = 'expected-nonce'): Promise<string> {
+    const codeVerifier = generateCodeVerifier();
+    const url = await provider.getOAuthUrl('demo', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(codeVerifier),
+      codeChallengeMethod: 'S256',
+      nonce,
+    });
+    const callback = await authorize(url);
+    const result = await provider.handleCallback(Object.fromEntries(callback.searchParams), {
+      codeVerifier,
+      redirectUri: REDIRECT_URI,
+    });
+    return result.id_token!;
+  }
+
+  /**
+   * ID token with these claims, signed by the demo provider's current key
+   */
+  async function signIdToken(claims: Record<string, unknown>): Promise<string> {
+    const { signJwt } = await import('../routes/keys.js');
+    const now = Math.floor(Date.now() / 1000);
+    return signJwt({
+      iss: config.issuer,
+      sub: 'demo-user-1',
+      aud: config.clientId,
+      iat: now,
+      exp: now + 300,
+      ...claims,
+    });
+  }
+
+  it('accepts a token of the demo provider', async () => {
+    const claims = await verifyIdToken(await issueIdToken(), config, { nonce: 'expected-nonce' });
+
+    assert.equal(claims.iss, config.issuer);
+    assert.equal(claims.aud, 'demo-client-id');
+    assert.equal(claims.nonce, 'expected-nonce');
+    assert.equal(claims.email, 'demo@example.com');
+  });
+
+  it('rejects another nonce', async () => {
+    await assert.rejects(
+      verifyIdToken(await issueIdToken(), config, { nonce: 'other-nonce' }),
+      isInvalidIdToken(/nonce mismatch/)
+    );
+  });
+
+  it('rejects a token for another client', async () => {
+    const idToken = await issueIdToken();
+    await assert.rejects(
+      verifyIdToken(idToken, { ...config, clientId: 'another-client' }),
+      isInvalidIdToken(/audience/)
+    );
+
+    // Several audiences: azp must name this client
+    await assert.rejects(
+      verifyIdToken(await signIdToken({ aud: ['demo-client-id', 'another-client'] }), config),
+      isInvalidIdToken(/azp/)
+    );
+    await verifyIdToken(await signIdToken({ aud: ['demo-client-id', 'another-client'], azp: 'demo-client-id' }), config);
+  });
+
+  it('rejects an expired token', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const expired = await signIdToken({ iat: now - 3600, exp: now - 600 });
+    await assert.rejects(verifyIdToken(expired, config), isInvalidIdToken(/expired/));
+
+    // Within the clock skew
+    await verifyIdToken(await signIdToken({ iat: now - 3600, exp: now - 30 }), config);
+  });
+
+  it('rejects another issuer and a forged signature', async () => {
+    await assert.rejects(
+      verifyIdToken(await signIdToken({ iss: 'https://issuer.example.com' }), config),
+      isInvalidIdToken(/issuer/)
+    );
+
+    const [header, payload, signature] = (await issueIdToken()).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, sub: 'someone-else' })).toString('base64url');
+    await assert.rejects(verifyIdToken(`${header}.${forged}.${signature}`, config), isInvalidIdToken(/signature/));
+  });
+
+  it('refetches the JWKS for an unknown kid after key rotation', async () => {
+    const before = await issueIdToken();
+    await verifyIdToken(before, config, { nonce: 'expected-nonce' });
+
+    const rotation = await fetch(`${demo.baseUrl}/demo/provider/keys/rotate`, { method: 'POST' });
+    const { kid } = await rotation.json();
+    const after = await issueIdToken();
+    assert.equal(JSON.parse(Buffer.from(after.split('.')[0], 'base64url').toString()).kid, kid);
+
+    const fetchSpy = mock.method(globalThis, 'fetch');
+    try {
+      await verifyIdToken(after, config, { nonce: 'expected-nonce' });
+      // The retired key stays published and cached
+      await verifyIdToken(before, config, { nonce: 'expected-nonce' });
+    } finally {
+      fetchSpy.mock.restore();
+    }
+
+    const jwksFetches = fetchSpy.mock.calls.filter((call) => String(call.arguments[0]) === config.jwksUri);
+    assert.equal(jwksFetches.length, 1);
+  });
+});
+
+describe('OAuthManager nonce check', () => {
+  function createManager(provider: RecordingOidcProvider) {
+    return new OAuthManager({
+      appUrl: APP_URL,
+      deeplinkScheme: 'myapp',
+      providers: { demo: provider },
+      sessionStore: new MemorySessionStore(),
+      nativeBridge: new FakeNativeBridge({ native: false }),
+      autoRefresh: false,
+      crossTabSync: false,
+    });
+  }
+
+  it('signs in with the nonce of the flow', async () => {
+    const provider = new RecordingOidcProvider(demo.baseUrl);
+    const manager = createManager(provider);
+
+    await manager.signIn('demo');
+    const nonce = new URL(provider.lastOAuthUrl).searchParams.get('nonce');
+    assert.ok(nonce);
+
+    const callback = await authorize(provider.lastOAuthUrl);
+    const { result } = await manager.completeCallback(Object.fromEntries(callback.searchParams));
+    assert.equal((await verifyIdToken(result.id_token!, await provider.getOidcConfig())).nonce, nonce);
+
+    const session = await manager.getSession();
+    assert.equal(session?.user.email, 'demo@example.com');
+  });
+
+  it('rejects an ID token issued for another nonce', async () => {
+    const provider = new RecordingOidcProvider(demo.baseUrl);
+    const manager = createManager(provider);
+
+    // Authorization request with a swapped nonce (e.g. an injected code from another flow)
+    await manager.signIn('demo');
+    const url = new URL(provider.lastOAuthUrl);
+    url.searchParams.set('nonce', 'injected-nonce');
+    const callback = await authorize(url.toString());
+
+    await assert.rejects(
+      manager.completeCallback(Object.fromEntries(callback.searchParams)),
+      isInvalidIdToken(/nonce mismatch/)
+    );
+    assert.equal(await manager.getSession(), null);
+  });
+});
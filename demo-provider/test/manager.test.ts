@@ -0,0 +1,237 @@
+/**
+ * OAuthManager flows against the demo provider (OidcProvider for the demo app's client)
+ */
+
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  OAuthManager,
+  NATIVE_START_PARAM,
+  NATIVE_FLOW_PARAM,
+  NATIVE_RETURN_TO_PARAM,
+  NATIVE_HANDOFF_PARAM,
+  HANDOFF_CODE_PARAM,
+} from '../../packages/core/oauth-manager.js';
+import { MemorySessionStore } from '../../packages/core/session-store.js';
+import { FakeNativeBridge } from '../../packages/core/native-bridge.js';
+import { RemoteHandoffStore } from '../../packages/core/handoff-store.js';
+import { generateCodeVerifier, createCodeChallenge } from '../../packages/core/pkce.js';
+import { OAuthError, OAuthStateError, type OAuthStateErrorReason } from '../../packages/core/errors.js';
+import type { OAuthKitConfig } from '../../packages/core/types.js';
+import { startDemoProvider, authorize, RecordingOidcProvider, APP_URL, type DemoProvider } from './helpers.js';
+
+describe('OAuthManager', () => {
+  let demo: DemoProvider;
+
+  before(async () => {
+    demo = await startDemoProvider();
+  });
+
+  after(async () => {
+    await demo.close();
+  });
+
+  function createManager(provider: RecordingOidcProvider, config: Partial<OAuthKitConfig> = {}) {
+    return new OAuthManager({
+      appUrl: APP_URL,
+      deeplinkScheme: 'myapp',
+      providers: { demo: provider },
+      sessionStore: new MemorySessionStore(),
+      nativeBridge: new FakeNativeBridge({ native: false }),
+      autoRefresh: false,
+      crossTabSync: false,
+      ...config,
+    });
+  }
+
+  /**
+   * Web sign in up to the callback: the params the provider redirected back with
+   */
+  async function startSignIn(manager: OAuthManager, provider: RecordingOidcProvider) {
+    await manager.signIn('demo');
+    const callback = await authorize(provider.lastOAuthUrl);
+    return Object.fromEntries(callback.searchParams);
+  }
+
+  describe('state', () => {
+    const isStateError = (reason: OAuthStateErrorReason) => (error: unknown) =>
+      error instanceof OAuthStateError && error.code === 'state_mismatch' && error.reason === reason;
+
+    it('completes a callback with the state it issued', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const manager = createManager(provider);
+      const params = await startSignIn(manager, provider);
+
+      const { flow } = await manager.completeCallback(params);
+      assert.equal(flow.state, params.state);
+      assert.equal(flow.provider, 'demo');
+      assert.equal((await manager.getSession())?.user.email, 'demo@example.com');
+    });
+
+    it('rejects a callback without a state before the code is exchanged', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const manager = createManager(provider);
+      const { state, ...params } = await startSignIn(manager, provider);
+      assert.ok(state);
+
+      const handleCallback = mock.method(provider, 'handleCallback');
+      await assert.rejects(manager.completeCallback(params), isStateError('missing'));
+      assert.equal(handleCallback.mock.callCount(), 0);
+      assert.equal(await manager.getSession(), null);
+    });
+
+    it('rejects a state another manager issued', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const params = await startSignIn(createManager(provider), provider);
+
+      // e.g. a login CSRF: the attacker's callback in the victim's browser
+      const victim = createManager(provider);
+      const handleCallback = mock.method(provider, 'handleCallback');
+      await assert.rejects(victim.completeCallback(params), isStateError('unknown'));
+      assert.equal(handleCallback.mock.callCount(), 0);
+      assert.equal(await victim.getSession(), null);
+    });
+
+    it('rejects an expired state', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const manager = createManager(provider, { stateTtl: 60 });
+      const params = await startSignIn(manager, provider);
+
+      mock.timers.enable({ apis: ['Date'], now: Date.now() + 61 * 1000 });
+      try {
+        await assert.rejects(manager.completeCallback(params), isStateError('expired'));
+      } finally {
+        mock.timers.reset();
+      }
+
+      // Gone for good
+      await assert.rejects(manager.completeCallback(params), isStateError('unknown'));
+    });
+
+    it('rejects a replayed callback', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const manager = createManager(provider);
+      const params = await startSignIn(manager, provider);
+      await manager.completeCallback(params);
+
+      await assert.rejects(manager.completeCallback(params), isStateError('replayed'));
+    });
+
+    it('spends the state of a callback with a provider error', async () => {
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      const manager = createManager(provider);
+      await manager.signIn('demo');
+      const denied = Object.fromEntries((await authorize(provider.lastOAuthUrl, 'deny')).searchParams);
+
+      await assert.rejects(manager.completeCallback(denied), (error: OAuthError) => error.code === 'access_denied');
+
+      // The same state can't be completed with a code afterwards
+      await assert.rejects(
+        manager.completeCallback({ state: denied.state, code: 'demo_code_injected' }),
+        isStateError('replayed')
+      );
+    });
+  });
+
+  describe('native handoff', () => {
+    /**
+     * WebView and browser session of one app, each with its own storage,
+     * handing off through the demo server's handoff endpoint
+     */
+    function createNativeApp() {
+      const handoffStore = new RemoteHandoffStore({ endpoint: `${demo.baseUrl}/demo/server/handoff` });
+      const bridge = new FakeNativeBridge();
+      const provider = new RecordingOidcProvider(demo.baseUrl);
+      return {
+        bridge,
+        provider,
+        webView: createManager(provider, { nativeBridge: bridge, handoffStore }),
+        browserSession: createManager(provider, { handoffStore }),
+      };
+    }
+
+    type NativeApp = ReturnType<typeof createNativeApp>;
+
+    /**
+     * signIn in the WebView, then /native-callback in the browser session up to its deeplink
+     * @param tamper Changes the bootstrap params before the browser session sees them
+     * @returns The deeplink params and the WebView flow's state
+     */
+    async function signInNative(app: NativeApp, tamper?: (start: URLSearchParams) => Promise<void>) {
+      await app.webView.signIn('demo', { returnTo: '/dashboard' });
+      const start = new URL(app.bridge.openedUrls.at(-1)!).searchParams;
+      const parentState = start.get(NATIVE_FLOW_PARAM)!;
+      await tamper?.(start);
+
+      await app.browserSession.startNativeFlow(start.get(NATIVE_START_PARAM)!, {
+        parentState: start.get(NATIVE_FLOW_PARAM) || undefined,
+        returnTo: start.get(NATIVE_RETURN_TO_PARAM) || undefined,
+        handoffChallenge: start.get(NATIVE_HANDOFF_PARAM) || undefined,
+      });
+      const callback = await authorize(app.provider.lastOAuthUrl);
+      const { redirectUrl } = await app.browserSession.handleCallback(Object.fromEntries(callback.searchParams), true);
+
+      const deeplink = new URL(redirectUrl);
+      assert.equal(deeplink.protocol, 'myapp:');
+      return { params: Object.fromEntries(deeplink.searchParams), parentState };
+    }
+
+    it('signs the WebView in with a one-time code instead of tokens', async () => {
+      const app = createNativeApp();
+      const { params, parentState } = await signInNative(app);
+
+      assert.ok(params[HANDOFF_CODE_PARAM]);
+      assert.equal(params.access_token, undefined);
+      assert.equal(params.state, parentState);
+
+      const { returnTo } = await app.webView.completeCallback(params);
+      assert.equal(returnTo, '/dashboard');
+      assert.equal((await app.webView.getSession())?.user.email, 'demo@example.com');
+    });
+
+    it('refuses a code bound to another verifier', async () => {
+      const app = createNativeApp();
+      // Bootstrap URL with a challenge the WebView doesn't hold the verifier for
+      const { params } = await signInNative(app, async (start) => {
+        start.set(NATIVE_HANDOFF_PARAM, await createCodeChallenge(generateCodeVerifier()));
+      });
+
+      await assert.rejects(
+        app.webView.completeCallback(params),
+        (error: OAuthError) => error.code === 'token_exchange_failed' && error.error === 'invalid_grant'
+      );
+      assert.equal(await app.webView.getSession(), null);
+    });
+
+    it('refuses a code bound to another WebView flow', async () => {
+      const app = createNativeApp();
+      const { params } = await signInNative(app);
+
+      // Another sign in of this WebView receives the first one's code
+      await app.webView.signIn('demo');
+      const otherState = new URL(app.bridge.openedUrls.at(-1)!).searchParams.get(NATIVE_FLOW_PARAM)!;
+
+      await assert.rejects(
+        app.webView.completeCallback({ ...params, state: otherState }),
+        (error: OAuthError) => error.code === 'token_exchange_failed' && error.error === 'invalid_grant'
+      );
+      assert.equal(await app.webView.getSession(), null);
+    });
+
+    it('refuses raw tokens in the deeplink', async () => {
+      const app = createNativeApp();
+      // Downgrade: the browser session is told to skip the handoff and put tokens in the deeplink
+      const { params } = await signInNative(app, async (start) => {
+        start.delete(NATIVE_HANDOFF_PARAM);
+      });
+      assert.ok(params.access_token);
+      assert.equal(params[HANDOFF_CODE_PARAM], undefined);
+
+      await assert.rejects(
+        app.webView.completeCallback(params),
+        (error: OAuthError) => error.code === 'invalid_response' && /without a handoff code/.test(error.message)
+      );
+      assert.equal(await app.webView.getSession(), null);
+    });
+  });
+});
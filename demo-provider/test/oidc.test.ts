@@ -0,0 +1,145 @@
+/**
+ * OidcProvider against the demo provider's discovery document
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { OidcProvider, type OidcTokenAuthMethod } from '../../packages/providers/oidc/index.js';
+import { generateCodeVerifier, createCodeChallenge } from '../../packages/core/pkce.js';
+import { OAuthError } from '../../packages/core/errors.js';
+import { verifyIdToken } from '../../packages/core/oidc.js';
+import { startDemoProvider, authorize, redirectOf, type DemoProvider } from './helpers.js';
+
+const REDIRECT_URI = 'http://localhost:5173/auth/callback';
+
+describe('OidcProvider', () => {
+  let demo: DemoProvider;
+
+  before(async () => {
+    demo = await startDemoProvider();
+  });
+
+  after(async () => {
+    await demo.close();
+  });
+
+  function createProvider(config: { clientSecret?: string; tokenAuthMethod?: OidcTokenAuthMethod } = {}) {
+    return new OidcProvider({
+      issuer: `${demo.baseUrl}/demo/provider`,
+      clientId: config.clientSecret ? 'demo-confidential-client' : 'demo-client-id',
+      clientSecret: config.clientSecret,
+      tokenAuthMethod: config.tokenAuthMethod,
+    });
+  }
+
+  async function signIn(provider: OidcProvider) {
+    const codeVerifier = generateCodeVerifier();
+    const url = await provider.getOAuthUrl('demo', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(codeVerifier),
+      codeChallengeMethod: 'S256',
+    });
+    const callback = await authorize(url);
+    return provider.handleCallback(Object.fromEntries(callback.searchParams), {
+      codeVerifier,
+      redirectUri: REDIRECT_URI,
+    });
+  }
+
+  it('refuses a discovery document for another issuer', async () => {
+    const provider = new OidcProvider({
+      issuer: 'https://login.example.com/common/v2.0',
+      clientId: 'demo-client-id',
+      discoveryUrl: `${demo.baseUrl}/demo/provider/.well-known/openid-configuration`,
+    });
+
+    await assert.rejects(
+      provider.getOidcConfig(),
+      (error: OAuthError) => error.code === 'discovery_failed' && /issuer mismatch/.test(error.message)
+    );
+    // Not even once the document is cached for a matching provider
+    await createProvider().getDiscovery();
+    await assert.rejects(provider.getDiscovery(), (error: OAuthError) => error.code === 'discovery_failed');
+  });
+
+  it('accepts another discovery issuer with idTokenIssuer and verifies ID tokens against it', async () => {
+    // Like Azure AD's /common document: the tokens' issuer isn't the configured one
+    const provider = new OidcProvider({
+      issuer: 'https://login.example.com/common/v2.0',
+      clientId: 'demo-client-id',
+      discoveryUrl: `${demo.baseUrl}/demo/provider/.well-known/openid-configuration`,
+      idTokenIssuer: `${demo.baseUrl}/demo/provider`,
+    });
+
+    const result = await signIn(provider);
+    const claims = await verifyIdToken(result.id_token!, await provider.getOidcConfig());
+    assert.equal(claims.iss, `${demo.baseUrl}/demo/provider`);
+
+    const otherIssuer = new OidcProvider({
+      issuer: `${demo.baseUrl}/demo/provider`,
+      clientId: 'demo-client-id',
+      idTokenIssuer: 'https://login.example.com/tenant/v2.0',
+    });
+    await assert.rejects(
+      verifyIdToken(result.id_token!, await otherIssuer.getOidcConfig()),
+      (error: OAuthError) => /issuer/.test(error.message)
+    );
+  });
+
+  it('redirects authorization errors back to the client', async () => {
+    const url = new URL(await createProvider().getOAuthUrl('demo', REDIRECT_URI, 'kit-state'));
+    // Without PKCE
+    url.searchParams.delete('code_challenge');
+    url.searchParams.delete('code_challenge_method');
+
+    const callback = await redirectOf(url.toString());
+    assert.equal(`${callback.origin}${callback.pathname}`, REDIRECT_URI);
+    assert.equal(callback.searchParams.get('error'), 'invalid_request');
+    assert.equal(callback.searchParams.get('state'), 'kit-state');
+  });
+
+  it('revokes the access token at the revocation endpoint', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+    assert.equal((await provider.getUser(result.access_token)).email, 'demo@example.com');
+
+    await provider.revokeToken(result.access_token, 'access_token');
+    await assert.rejects(provider.getUser(result.access_token), OAuthError);
+  });
+
+  it('revokes the refresh token', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    await provider.revokeToken(result.refresh_token!, 'refresh_token');
+    await assert.rejects(
+      provider.refreshSession(result.refresh_token!),
+      (error: OAuthError) => error.error === 'invalid_grant'
+    );
+  });
+
+  it('authenticates confidential clients with their tokenAuthMethod', async () => {
+    for (const tokenAuthMethod of ['client_secret_post', 'client_secret_basic'] as const) {
+      const provider = createProvider({ clientSecret: 'demo-client-secret', tokenAuthMethod });
+      const result = await signIn(provider);
+
+      await provider.revokeToken(result.access_token, 'access_token');
+      await assert.rejects(provider.getUser(result.access_token), OAuthError);
+    }
+
+    const result = await signIn(createProvider({ clientSecret: 'demo-client-secret' }));
+    await assert.rejects(
+      createProvider({ clientSecret: 'wrong' }).revokeToken(result.access_token, 'access_token'),
+      (error: OAuthError) => error.error === 'invalid_client'
+    );
+  });
+
+  it("refuses to revoke another client's token", async () => {
+    const result = await signIn(createProvider());
+
+    await assert.rejects(
+      createProvider({ clientSecret: 'demo-client-secret' }).revokeToken(result.access_token, 'access_token'),
+      (error: OAuthError) => error.error === 'unauthorized_client'
+    );
+    assert.equal((await createProvider().getUser(result.access_token)).email, 'demo@example.com');
+  });
+});
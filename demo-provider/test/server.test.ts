@@ -0,0 +1,333 @@
+/**
+ * packages/server as mounted by the demo server (routes/oauth-server.ts)
+ * /demo/server (token mode, through BackendProvider) and /demo/bff (BFF sessions)
+ */
+
+import { describe, it, before, after, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { BackendProvider } from '../../packages/providers/backend/index.js';
+import { RemoteHandoffStore } from '../../packages/core/handoff-store.js';
+import { generateCodeVerifier, createCodeChallenge } from '../../packages/core/pkce.js';
+import { OAuthError } from '../../packages/core/errors.js';
+import { OAuthServer, type UpstreamProvider } from '../../packages/server/index.js';
+import { startDemoProvider, authorize, type DemoProvider } from './helpers.js';
+
+// Confidential client of the demo provider's registry, as used by the server demo
+const CLIENT_ID = 'demo-confidential-client';
+const REDIRECT_URI = 'http://localhost:5173/native-callback';
+
+describe('OAuthServer', () => {
+  let demo: DemoProvider;
+
+  before(async () => {
+    demo = await startDemoProvider();
+  });
+
+  after(async () => {
+    await demo.close();
+  });
+
+  function createProvider() {
+    return new BackendProvider({
+      endpoint: `${demo.baseUrl}/demo/server`,
+      authorizeUrl: `${demo.baseUrl}/demo/provider/authorize`,
+      clientId: CLIENT_ID,
+    });
+  }
+
+  /**
+   * Authorization code of the demo provider, with its PKCE verifier
+   */
+  async function authorizationCode(provider: BackendProvider = createProvider()) {
+    const codeVerifier = generateCodeVerifier();
+    const url = await provider.getOAuthUrl('demo', REDIRECT_URI, 'kit-state', {
+      codeChallenge: await createCodeChallenge(codeVerifier),
+      codeChallengeMethod: 'S256',
+    });
+    const callback = await authorize(url);
+    return { params: Object.fromEntries(callback.searchParams), codeVerifier };
+  }
+
+  async function userinfoStatus(accessToken: string): Promise<number> {
+    const response = await fetch(`${demo.baseUrl}/demo/provider/userinfo`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    return response.status;
+  }
+
+  describe('token mode', () => {
+    it('exchanges a code with the client secret', async () => {
+      const provider = createProvider();
+      const { params, codeVerifier } = await authorizationCode(provider);
+
+      const result = await provider.handleCallback(params, { codeVerifier, redirectUri: REDIRECT_URI });
+      assert.ok(result.access_token);
+      assert.ok(result.refresh_token);
+      assert.ok(result.id_token);
+      assert.equal(result.user?.email, 'demo@example.com');
+    });
+
+    it('passes upstream errors through', async () => {
+      const provider = createProvider();
+      const { params } = await authorizationCode(provider);
+
+      // Wrong PKCE verifier
+      await assert.rejects(
+        provider.handleCallback(params, { codeVerifier: generateCodeVerifier(), redirectUri: REDIRECT_URI }),
+        (error: OAuthError) => error.error === 'invalid_grant'
+      );
+    });
+
+    it('refreshes', async () => {
+      const provider = createProvider();
+      const { params, codeVerifier } = await authorizationCode(provider);
+      const result = await provider.handleCallback(params, { codeVerifier, redirectUri: REDIRECT_URI });
+
+      const refreshed = await provider.refreshSession(result.refresh_token!);
+      assert.notEqual(refreshed.access_token, result.access_token);
+      assert.equal(await userinfoStatus(refreshed.access_token), 200);
+
+      await assert.rejects(
+        provider.refreshSession('not-a-refresh-token'),
+        (error: OAuthError) => error.error === 'invalid_grant'
+      );
+    });
+
+    it('revokes upstream', async () => {
+      const provider = createProvider();
+      const { params, codeVerifier } = await authorizationCode(provider);
+      const result = await provider.handleCallback(params, { codeVerifier, redirectUri: REDIRECT_URI });
+      assert.equal(await userinfoStatus(result.access_token), 200);
+
+      await provider.revokeToken(result.access_token, 'access_token');
+      assert.equal(await userinfoStatus(result.access_token), 401);
+    });
+  });
+
+  describe('client authentication', () => {
+    function createServer(clientAuthMethod: UpstreamProvider['clientAuthMethod']) {
+      return new OAuthServer({
+        providers: {
+          demo: {
+            tokenEndpoint: `${demo.baseUrl}/demo/provider/token`,
+            revocationEndpoint: `${demo.baseUrl}/demo/provider/revoke`,
+            clientId: CLIENT_ID,
+            clientSecret: 'demo-client-secret',
+            clientAuthMethod,
+          },
+        },
+      });
+    }
+
+    it('sends the client secret the same way to the token and revocation endpoints', async () => {
+      for (const clientAuthMethod of ['client_secret_basic', 'client_secret_post'] as const) {
+        const server = createServer(clientAuthMethod);
+        const { params, codeVerifier } = await authorizationCode();
+
+        const fetchSpy = mock.method(globalThis, 'fetch');
+        let revoke;
+        try {
+          const exchange = await server.handle({
+            method: 'POST',
+            path: '/exchange',
+            headers: {},
+            body: { provider: 'demo', code: params.code, redirect_uri: REDIRECT_URI, code_verifier: codeVerifier },
+          });
+          assert.equal(exchange?.status, 200);
+          const { access_token } = exchange!.body as { access_token: string };
+
+          revoke = await server.handle({
+            method: 'POST',
+            path: '/revoke',
+            headers: {},
+            body: { provider: 'demo', token: access_token, token_type_hint: 'access_token' },
+          });
+          assert.equal(await userinfoStatus(access_token), 401);
+        } finally {
+          fetchSpy.mock.restore();
+        }
+        assert.deepEqual(revoke?.body, { revoked: true });
+
+        const [tokenRequest, revocationRequest] = fetchSpy.mock.calls.map((call) => call.arguments[1] as RequestInit);
+        for (const request of [tokenRequest, revocationRequest]) {
+          const headers = request.headers as Record<string, string>;
+          const body = request.body as URLSearchParams;
+          if (clientAuthMethod === 'client_secret_basic') {
+            assert.match(headers['Authorization'], /^Basic /);
+            assert.equal(body.get('client_secret'), null);
+          } else {
+            assert.equal(headers['Authorization'], undefined);
+            assert.equal(body.get('client_secret'), 'demo-client-secret');
+          }
+        }
+      }
+    });
+  });
+
+  describe('handoff', () => {
+    function createStore() {
+      return new RemoteHandoffStore({ endpoint: `${demo.baseUrl}/demo/server/handoff` });
+    }
+
+    async function createHandoff() {
+      const verifier = generateCodeVerifier();
+      const binding = { state: 'webview-state', challenge: await createCodeChallenge(verifier) };
+      const code = await createStore().create({ access_token: 'handed-off' }, binding);
+      return { code, verifier };
+    }
+
+    it('redeems a code once, for the flow it is bound to', async () => {
+      const { code, verifier } = await createHandoff();
+
+      const result = await createStore().redeem(code, { state: 'webview-state', verifier });
+      assert.equal(result.access_token, 'handed-off');
+
+      await assert.rejects(createStore().redeem(code, { state: 'webview-state', verifier }), OAuthError);
+    });
+
+    it('refuses another flow', async () => {
+      const { code, verifier } = await createHandoff();
+      await assert.rejects(createStore().redeem(code, { state: 'other-state', verifier }), OAuthError);
+
+      const second = await createHandoff();
+      await assert.rejects(
+        createStore().redeem(second.code, { state: 'webview-state', verifier: generateCodeVerifier() }),
+        OAuthError
+      );
+    });
+  });
+
+  describe('BFF mode', () => {
+    /**
+     * A browser: its own cookie jar for the BFF session cookie
+     */
+    function createBrowser() {
+      let cookie = '';
+
+      return async (method: string, path: string, body?: Record<string, unknown>) => {
+        const response = await fetch(`${demo.baseUrl}/demo/bff${path}`, {
+          method,
+          headers: {
+            ...(cookie ? { Cookie: cookie } : {}),
+            ...(body ? { 'Content-Type': 'application/json' } : {}),
+          },
+          body: body ? JSON.stringify(body) : undefined,
+        });
+        const setCookie = response.headers.getSetCookie()[0];
+        if (setCookie) {
+          cookie = setCookie.split(';')[0];
+        }
+        return { status: response.status, body: response.status === 204 ? null : await response.json(), cookie };
+      };
+    }
+
+    /**
+     * Native sign in up to the exchange in the browser session
+     * @returns The browser session, its transfer code and the WebView's handoff secret
+     */
+    async function exchangeInBrowserSession(bound: boolean = true) {
+      const browserSession = createBrowser();
+      const handoffVerifier = generateCodeVerifier();
+      const { params, codeVerifier } = await authorizationCode();
+
+      const exchange = await browserSession('POST', '/exchange', {
+        code: params.code,
+        redirect_uri: REDIRECT_URI,
+        code_verifier: codeVerifier,
+        handoff_challenge: bound ? await createCodeChallenge(handoffVerifier) : undefined,
+      });
+      assert.equal(exchange.status, 200);
+      assert.equal(exchange.body.token_type, 'bff');
+      assert.equal(exchange.body.refresh_token, undefined);
+
+      return { browserSession, transferCode: exchange.body.access_token as string, handoffVerifier };
+    }
+
+    it('keeps the tokens on the server behind a cookie', async () => {
+      const { browserSession } = await exchangeInBrowserSession();
+
+      const session = await browserSession('GET', '/session');
+      assert.equal(session.status, 200);
+      assert.equal(session.body.user.email, 'demo@example.com');
+      assert.equal(session.body.access_token, undefined);
+    });
+
+    it('moves the session to the WebView that claims the code with its verifier', async () => {
+      const { browserSession, transferCode, handoffVerifier } = await exchangeInBrowserSession();
+
+      // The browser session's own claim (BackendProvider.setSession there) leaves the code alone
+      const own = await browserSession('POST', '/session/claim', { code: transferCode });
+      assert.equal(own.status, 200);
+
+      const webView = createBrowser();
+      const claim = await webView('POST', '/session/claim', { code: transferCode, verifier: handoffVerifier });
+      assert.equal(claim.status, 200);
+      assert.equal(claim.body.user.email, 'demo@example.com');
+      assert.notEqual(claim.cookie, own.cookie);
+
+      assert.equal((await webView('GET', '/session')).status, 200);
+      assert.equal((await browserSession('GET', '/session')).status, 401);
+    });
+
+    it('refuses a replayed code', async () => {
+      const { transferCode, handoffVerifier } = await exchangeInBrowserSession();
+      assert.equal((await createBrowser()('POST', '/session/claim', { code: transferCode, verifier: handoffVerifier })).status, 200);
+
+      const replay = await createBrowser()('POST', '/session/claim', { code: transferCode, verifier: handoffVerifier });
+      assert.equal(replay.status, 400);
+      assert.equal(replay.body.error, 'invalid_grant');
+    });
+
+    it('refuses an expired code', async () => {
+      const { transferCode, handoffVerifier } = await exchangeInBrowserSession();
+
+      mock.timers.enable({ apis: ['Date'], now: Date.now() + 61 * 1000 });
+      try {
+        const claim = await createBrowser()('POST', '/session/claim', { code: transferCode, verifier: handoffVerifier });
+        assert.equal(claim.status, 400);
+        assert.equal(claim.body.error, 'invalid_grant');
+      } finally {
+        mock.timers.reset();
+      }
+    });
+
+    it('refuses another browser without the verifier', async () => {
+      const { transferCode, handoffVerifier } = await exchangeInBrowserSession();
+
+      const attacker = createBrowser();
+      const withoutVerifier = await attacker('POST', '/session/claim', { code: transferCode });
+      assert.equal(withoutVerifier.status, 400);
+      assert.equal(withoutVerifier.body.error, 'invalid_grant');
+      assert.equal((await attacker('GET', '/session')).status, 401);
+
+      // Single use: a failed claim spends the code
+      const webView = await createBrowser()('POST', '/session/claim', { code: transferCode, verifier: handoffVerifier });
+      assert.equal(webView.status, 400);
+
+      const other = await exchangeInBrowserSession();
+      const wrongVerifier = await attacker('POST', '/session/claim', {
+        code: other.transferCode,
+        verifier: generateCodeVerifier(),
+      });
+      assert.equal(wrongVerifier.status, 400);
+      assert.equal((await attacker('GET', '/session')).status, 401);
+    });
+
+    it('refuses to move a session whose code is not bound to a native sign in', async () => {
+      const { transferCode } = await exchangeInBrowserSession(false);
+
+      const claim = await createBrowser()('POST', '/session/claim', { code: transferCode, verifier: generateCodeVerifier() });
+      assert.equal(claim.status, 400);
+      assert.equal(claim.body.error, 'invalid_grant');
+    });
+
+    it('ends the session and revokes its tokens on sign out', async () => {
+      const { browserSession } = await exchangeInBrowserSession();
+
+      const revoke = await browserSession('POST', '/revoke', {});
+      assert.equal(revoke.status, 200);
+      assert.equal(revoke.body.revoked, true);
+      assert.equal((await browserSession('GET', '/session')).status, 401);
+    });
+  });
+});
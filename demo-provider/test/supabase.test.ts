@@ -0,0 +1,197 @@
+/**
+ * SupabaseProvider against the Supabase Auth stub (routes/supabase.ts), with supabase-js's auth client
+ */
+
+import { describe, it, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { AuthClient } from '@supabase/auth-js';
+import { SupabaseProvider } from '../../packages/providers/supabase/index.js';
+import { OAuthManager } from '../../packages/core/oauth-manager.js';
+import { MemorySessionStore } from '../../packages/core/session-store.js';
+import { FakeNativeBridge } from '../../packages/core/native-bridge.js';
+import { OAuthError } from '../../packages/core/errors.js';
+import { startDemoProvider, redirectOf, memoryStorage, type DemoProvider } from './helpers.js';
+
+const REDIRECT_URI = 'https://app.example.com/native-callback';
+
+/**
+ * Remembers the last authorize URL, so a test can follow it like a browser
+ */
+class RecordingSupabaseProvider extends SupabaseProvider {
+  lastOAuthUrl = '';
+
+  async getOAuthUrl(provider: string, redirectUri: string, state: string): Promise<string> {
+    this.lastOAuthUrl = await super.getOAuthUrl(provider, redirectUri, state);
+    return this.lastOAuthUrl;
+  }
+}
+
+describe('SupabaseProvider', () => {
+  let demo: DemoProvider;
+
+  before(async () => {
+    demo = await startDemoProvider();
+  });
+
+  after(async () => {
+    await demo.close();
+  });
+
+  // `supabase.auth` of createClient(url, key, { auth: { flowType: 'pkce', autoRefreshToken: false } }) -
+  // one per storage: the browser session and the WebView don't share one
+  function createProvider() {
+    const auth = new AuthClient({
+      url: `${demo.baseUrl}/demo/supabase/auth/v1`,
+      headers: { apikey: 'demo-anon-key' },
+      flowType: 'pkce',
+      storage: memoryStorage(),
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    });
+    return new RecordingSupabaseProvider({ client: { auth } });
+  }
+
+  async function signIn(provider: SupabaseProvider, state: string = 'kit-state') {
+    const url = await provider.getOAuthUrl('github', REDIRECT_URI, state);
+    const callback = await redirectOf(url);
+    return provider.handleCallback(Object.fromEntries(callback.searchParams));
+  }
+
+  it('refuses a client that refreshes on its own', () => {
+    const auth = new AuthClient({
+      url: `${demo.baseUrl}/demo/supabase/auth/v1`,
+      storage: memoryStorage(),
+      autoRefreshToken: true,
+    });
+    assert.throws(() => new SupabaseProvider({ client: { auth } }), /autoRefreshToken: false/);
+  });
+
+  it('maps redirectTo to the kit callback URI and carries the state', async () => {
+    const provider = createProvider();
+    const url = new URL(await provider.getOAuthUrl('github', REDIRECT_URI, 'kit-state'));
+
+    const redirectTo = new URL(url.searchParams.get('redirect_to')!);
+    assert.equal(`${redirectTo.origin}${redirectTo.pathname}`, REDIRECT_URI);
+    assert.equal(redirectTo.searchParams.get('oauthkit_state'), 'kit-state');
+    assert.ok(url.searchParams.get('code_challenge'));
+
+    const callback = await redirectOf(url.toString());
+    assert.equal(callback.searchParams.get('oauthkit_state'), 'kit-state');
+    assert.ok(callback.searchParams.get('code'));
+  });
+
+  it('exchanges the code for a session with a JWT access token', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    assert.equal(result.access_token.split('.').length, 3);
+    assert.ok(result.refresh_token);
+    assert.equal(result.user?.email, 'demo@example.com');
+    assert.equal(result.user?.name, 'Demo User');
+
+    const session = await provider.getSession();
+    assert.equal(session?.access_token, result.access_token);
+  });
+
+  it('hands the session to another client with setSession (native WebView)', async () => {
+    // Browser session: code exchange with the PKCE verifier it stored
+    const result = await signIn(createProvider());
+
+    // WebView: only gets the tokens
+    const webView = createProvider();
+    assert.equal(await webView.getSession(), null);
+    await webView.setSession({
+      access_token: result.access_token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+    });
+
+    const session = await webView.getSession();
+    assert.equal(session?.access_token, result.access_token);
+    assert.equal(session?.user.id, result.user?.id);
+    assert.ok(session?.expires_at && session.expires_at > Date.now());
+  });
+
+  it('reports a code exchanged by another client', async () => {
+    const browserSession = createProvider();
+    const callback = await redirectOf(await browserSession.getOAuthUrl('github', REDIRECT_URI, 'kit-state'));
+
+    // No PKCE verifier in this client's storage
+    await assert.rejects(createProvider().handleCallback(Object.fromEntries(callback.searchParams)), OAuthError);
+  });
+
+  it('reports a denied sign in', async () => {
+    const provider = createProvider();
+    const callback = await redirectOf(await provider.getOAuthUrl('deny', REDIRECT_URI, 'kit-state'));
+
+    await assert.rejects(
+      provider.handleCallback(Object.fromEntries(callback.searchParams)),
+      (error: OAuthError) => error.code === 'access_denied'
+    );
+  });
+
+  it('refreshes with a rotating refresh token', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    const refreshed = await provider.refreshSession(result.refresh_token!);
+    assert.notEqual(refreshed.refresh_token, result.refresh_token);
+    assert.equal(refreshed.user?.id, result.user?.id);
+
+    // Spent, or never issued: reported as invalid_grant
+    await assert.rejects(
+      createProvider().refreshSession(result.refresh_token!),
+      (error: OAuthError) => error.code === 'expired_session' && error.error === 'invalid_grant'
+    );
+    await assert.rejects(
+      createProvider().refreshSession('sb_refresh_unknown'),
+      (error: OAuthError) => error.code === 'expired_session' && error.error === 'invalid_grant'
+    );
+  });
+
+  it('ends the manager session when the refresh token was used elsewhere', async () => {
+    const provider = createProvider();
+    const manager = new OAuthManager({
+      appUrl: 'https://app.example.com',
+      deeplinkScheme: 'myapp',
+      providers: { supabase: provider },
+      sessionStore: new MemorySessionStore(),
+      nativeBridge: new FakeNativeBridge({ native: false }),
+      autoRefresh: false,
+      crossTabSync: false,
+    });
+
+    await manager.signIn('supabase');
+    const callback = await redirectOf(provider.lastOAuthUrl);
+    await manager.completeCallback(Object.fromEntries(callback.searchParams));
+    const session = await manager.getSession();
+    assert.equal(session?.user.email, 'demo@example.com');
+
+    // Another client spends the refresh token
+    await createProvider().refreshSession(session!.refresh_token!);
+
+    const events: string[] = [];
+    manager.onAuthStateChange((event) => events.push(event));
+    assert.equal(await manager.refreshSession(), null);
+    assert.equal(await manager.getSession(), null);
+    assert.ok(events.includes('SESSION_EXPIRED'));
+  });
+
+  it('fetches the user for an access token', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    const user = await provider.getUser(result.access_token);
+    assert.equal(user.id, result.user?.id);
+    await assert.rejects(provider.getUser('not-a-token'), OAuthError);
+  });
+
+  it('signs out', async () => {
+    const provider = createProvider();
+    const result = await signIn(provider);
+
+    await provider.signOut();
+    assert.equal(await provider.getSession(), null);
+    await assert.rejects(provider.getUser(result.access_token), OAuthError);
+  });
+});
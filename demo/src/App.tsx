@@ -10,6 +10,7 @@ import { HomePage } from './pages/HomePage';
 import { AuthPage } from './pages/AuthPage';
 import { CallbackPage } from './pages/CallbackPage';
 import { NativeCallbackPage } from './pages/NativeCallbackPage';
+import { NativeLogoutPage } from './pages/NativeLogoutPage';
 
 // Get app URL from current location
 const appUrl = typeof window !== 'undefined' 
@@ -31,6 +32,7 @@ function App() {
           <Route path="/auth" element={<AuthPage />} />
           <Route path="/auth/callback" element={<CallbackPage />} />
           <Route path="/native-callback" element={<NativeCallbackPage />} />
+          <Route path="/native-logout" element={<NativeLogoutPage />} />
         </Routes>
       </BrowserRouter>
     </OAuthProvider>
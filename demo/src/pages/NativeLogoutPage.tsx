@@ -0,0 +1,10 @@
+/**
+ * Native Logout Page
+ * Closes the browser session after signOut({ global: true }) in the Despia app
+ */
+
+import { NativeLogout } from '../../../packages/react/NativeLogout';
+
+export function NativeLogoutPage() {
+  return <NativeLogout deeplinkScheme="myapp" exitPath="/" />;
+}
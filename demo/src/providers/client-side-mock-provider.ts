@@ -4,7 +4,7 @@
  * No server required - works on Netlify, Vercel, or any static hosting
  */
 
-import type { OAuthProvider, AuthResult, TokenSet, Session, User } from '../../../packages/core/types';
+import type { OAuthProvider, AuthResult, User } from '../../../packages/core/types';
 
 export class ClientSideMockProvider implements OAuthProvider {
   private clientId: string;
@@ -17,14 +17,7 @@ export class ClientSideMockProvider implements OAuthProvider {
     // For client-side demo, return URL to authorization page
     // The authorization page will show "Login as Demo User" button
     // When clicked, it redirects to redirectUri with tokens in hash
-    
-    // Store state for verification (optional, but good practice)
-    if (typeof window !== 'undefined' && typeof sessionStorage !== 'undefined') {
-      sessionStorage.setItem(`oauth_state_${state}`, JSON.stringify({
-        state,
-        timestamp: Date.now(),
-      }));
-    }
+    // State is stored and verified by OAuthManager
 
     // Return URL to the authorization page
     // In production, this would be your OAuth provider's authorization endpoint
@@ -84,55 +77,24 @@ export class ClientSideMockProvider implements OAuthProvider {
     return result;
   }
 
-  async setSession(tokens: TokenSet): Promise<void> {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      return;
-    }
-
-    localStorage.setItem('oauth_access_token', tokens.access_token);
-    if (tokens.refresh_token) {
-      localStorage.setItem('oauth_refresh_token', tokens.refresh_token);
-    }
-    if (tokens.expires_in) {
-      const expiresAt = Date.now() + tokens.expires_in * 1000;
-      localStorage.setItem('oauth_expires_at', expiresAt.toString());
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    if (!refreshToken) {
+      throw new Error('No refresh token');
     }
-  }
 
-  async getSession(): Promise<Session | null> {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      return null;
-    }
-
-    const accessToken = localStorage.getItem('oauth_access_token');
-    if (!accessToken) {
-      return null;
-    }
-
-    // Check if token expired
-    const expiresAt = localStorage.getItem('oauth_expires_at');
-    if (expiresAt && parseInt(expiresAt, 10) < Date.now()) {
-      this.signOut();
-      return null;
-    }
-
-    // Return mock user data
-    const mockUser = this.generateMockUser();
+    // Simulate refresh token rotation (no actual server call needed)
+    const mockTokens = this.generateMockTokens();
 
     return {
-      access_token: accessToken,
-      refresh_token: localStorage.getItem('oauth_refresh_token') || undefined,
-      expires_at: expiresAt ? parseInt(expiresAt, 10) : undefined,
-      user: mockUser,
+      access_token: mockTokens.access_token,
+      refresh_token: mockTokens.refresh_token,
+      expires_in: mockTokens.expires_in,
     };
   }
 
-  async signOut(): Promise<void> {
-    if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-      localStorage.removeItem('oauth_access_token');
-      localStorage.removeItem('oauth_refresh_token');
-      localStorage.removeItem('oauth_expires_at');
-    }
+  async getUser(): Promise<User> {
+    // Return mock user data
+    return this.generateMockUser();
   }
 
   // Helper methods for generating mock data
@@ -3,16 +3,97 @@
  * Handles native OAuth flow using Despia Native SDK
  */
 
+import type { NativeBridge, NativeAuthStrategy } from './types';
+
+export type DespiaPlatform = 'ios' | 'android' | 'unknown';
+
+/**
+ * What the installed Despia app can do for OAuth
+ */
+export interface DespiaCapabilities {
+  /** `oauth://?url=` opens ASWebAuthenticationSession/Chrome Custom Tab */
+  oauthSession: boolean;
+
+  /** `{scheme}://oauth/{path}` closes the session and opens the path in the WebView */
+  oauthDeeplink: boolean;
+
+  /** URLs can be opened in the system browser */
+  externalBrowser: boolean;
+}
+
+/**
+ * Despia app version, platform and capabilities
+ */
+export interface DespiaEnvironment {
+  /** App version (e.g. '2.4.1'), null when the app doesn't report one */
+  version: string | null;
+  platform: DespiaPlatform;
+  capabilities: DespiaCapabilities;
+
+  /** Where the information came from */
+  source: 'runtime' | 'user-agent';
+}
+
+/**
+ * Runtime bridge injected by newer Despia builds (`window.despia`)
+ */
+interface DespiaRuntime {
+  version?: string;
+  platform?: string;
+  capabilities?: Partial<DespiaCapabilities>;
+  openExternal?: (url: string) => void;
+}
+
+/**
+ * Minimum app versions per capability (unset = every version has it)
+ */
+export type DespiaMinVersions = Partial<Record<keyof DespiaCapabilities, string>>;
+
 /**
  * Detect if running in Despia native app
  */
 export function isDespiaNative(): boolean {
+  if (getDespiaRuntime()) {
+    return true;
+  }
   if (typeof navigator === 'undefined') {
     return false;
   }
   return navigator.userAgent.toLowerCase().includes('despia');
 }
 
+/**
+ * Read the Despia version, platform and capabilities
+ * Capabilities reported by the runtime bridge win; otherwise they are derived from
+ * the version in the user agent (e.g. `Despia/2.4.1`) and `minVersions`.
+ *
+ * @returns null outside of Despia
+ */
+export function getDespiaEnvironment(minVersions: DespiaMinVersions = {}): DespiaEnvironment | null {
+  if (!isDespiaNative()) {
+    return null;
+  }
+
+  const runtime = getDespiaRuntime();
+  const userAgent = typeof navigator !== 'undefined' ? navigator.userAgent : '';
+  const version = runtime?.version || userAgent.match(/despia[\/ ]v?(\d+(?:\.\d+)*)/i)?.[1] || null;
+  const platform = parsePlatform(runtime?.platform || userAgent);
+
+  // Unknown version: assume a current build (the behavior before versions were checked)
+  const hasVersion = (capability: keyof DespiaCapabilities) => {
+    const minVersion = minVersions[capability];
+    return !minVersion || !version || compareVersions(version, minVersion) >= 0;
+  };
+
+  const capabilities: DespiaCapabilities = {
+    oauthSession: runtime?.capabilities?.oauthSession ?? hasVersion('oauthSession'),
+    oauthDeeplink: runtime?.capabilities?.oauthDeeplink ?? hasVersion('oauthDeeplink'),
+    externalBrowser: runtime?.capabilities?.externalBrowser ?? (!!runtime?.openExternal && hasVersion('externalBrowser')),
+  };
+
+  return { version, platform, capabilities, source: runtime ? 'runtime' : 'user-agent' };
+}
+
 /**
  * Open OAuth URL in Despia's secure browser session
  * - Web: Regular window.location redirect
@@ -49,3 +130,113 @@ export function createDespiaDeeplink(
   const cleanPath = path.replace(/^\//, '');
   return `${scheme}://oauth/${cleanPath}?${query}`;
 }
+
+export interface DespiaBridgeOptions {
+  /** Minimum Despia app versions per capability, older apps get a fallback strategy */
+  minVersions?: DespiaMinVersions;
+}
+
+/**
+ * Despia bridge (default NativeBridge)
+ */
+export class DespiaBridge implements NativeBridge {
+  readonly name = 'despia';
+  private minVersions: DespiaMinVersions;
+
+  constructor(options: DespiaBridgeOptions = {}) {
+    this.minVersions = options.minVersions || {};
+  }
+
+  detect(): boolean {
+    return isDespiaNative();
+  }
+
+  openAuthSession(url: string): Promise<void> {
+    return openDespiaOAuth(url);
+  }
+
+  buildReturnDeeplink(path: string, params: Record<string, string>, scheme: string): string {
+    return createDespiaDeeplink(path, params, scheme);
+  }
+
+  /**
+   * Despia version, platform and capabilities of this app
+   */
+  getEnvironment(): DespiaEnvironment | null {
+    return getDespiaEnvironment(this.minVersions);
+  }
+
+  /**
+   * Best strategy the installed app supports (logged for diagnostics)
+   */
+  selectStrategy(): NativeAuthStrategy {
+    const environment = this.getEnvironment();
+    if (!environment) {
+      return 'auth-session';
+    }
+
+    const { capabilities } = environment;
+    let strategy: NativeAuthStrategy;
+    if (capabilities.oauthSession && capabilities.oauthDeeplink) {
+      strategy = 'auth-session';
+    } else if (capabilities.externalBrowser) {
+      strategy = 'external-browser';
+    } else {
+      strategy = 'in-webview';
+    }
+
+    const details = `Despia ${environment.version || '(unknown version)'} on ${environment.platform}, from ${environment.source}`;
+    if (strategy === 'auth-session') {
+      console.info(`OAuth Kit: ${details}, signing in with strategy '${strategy}'`);
+    } else {
+      console.warn(
+        `OAuth Kit: ${details} lacks the OAuth session/deeplink capability, falling back to strategy '${strategy}'`,
+        capabilities
+      );
+    }
+    return strategy;
+  }
+
+  openExternal(url: string): void {
+    const runtime = getDespiaRuntime();
+    if (runtime?.openExternal) {
+      runtime.openExternal(url);
+    } else if (typeof window !== 'undefined') {
+      window.open(url, '_blank');
+    }
+  }
+}
+
+function getDespiaRuntime(): DespiaRuntime | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const runtime = (window as Window & { despia?: DespiaRuntime }).despia;
+  return runtime && typeof runtime === 'object' ? runtime : null;
+}
+
+function parsePlatform(value: string): DespiaPlatform {
+  if (/iphone|ipad|ipod|ios/i.test(value)) {
+    return 'ios';
+  }
+  if (/android/i.test(value)) {
+    return 'android';
+  }
+  return 'unknown';
+}
+
+/**
+ * Compare dotted version strings numerically
+ * @returns negative when a < b, 0 when equal, positive when a > b
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map((part) => parseInt(part, 10) || 0);
+  const right = b.split('.').map((part) => parseInt(part, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) {
+      return diff;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,197 @@
+/**
+ * OAuth Kit - Errors
+ * Typed errors thrown by the core library
+ */
+
+/**
+ * Stable error codes - branch on these in the UI, not on messages
+ * - access_denied: user or provider refused the authorization
+ * - cancelled: user closed the popup/browser session before finishing
+ * - state_mismatch: returned state failed verification (see OAuthStateError)
+ * - token_exchange_failed: code, refresh token or handoff code was rejected
+ * - network_error: request never got a response
+ * - invalid_response: provider returned an error or an unusable response
+ * - expired_session: session ended and couldn't be refreshed
+ * - discovery_failed: OIDC discovery document was unavailable or describes another issuer
+ */
+export type OAuthErrorCode =
+  | 'access_denied'
+  | 'cancelled'
+  | 'state_mismatch'
+  | 'token_exchange_failed'
+  | 'network_error'
+  | 'invalid_response'
+  | 'expired_session'
+  | 'discovery_failed';
+
+export interface OAuthErrorOptions {
+  /** RFC 6749 `error` (e.g. 'access_denied', 'invalid_grant') */
+  error?: string;
+
+  /** RFC 6749 `error_description` */
+  errorDescription?: string;
+
+  /** RFC 6749 `error_uri` */
+  errorUri?: string;
+
+  /** Underlying error */
+  cause?: unknown;
+}
+
+/**
+ * Param carrying the kit's error code next to the RFC 6749 error params
+ */
+export const ERROR_CODE_PARAM = 'error_code';
+
+const ERROR_CODES: OAuthErrorCode[] = [
+  'access_denied',
+  'cancelled',
+  'state_mismatch',
+  'token_exchange_failed',
+  'network_error',
+  'invalid_response',
+  'expired_session',
+  'discovery_failed',
+];
+
+// RFC 6749 / OIDC authorization errors that mean "the user said no"
+const DENIED_ERRORS = ['access_denied', 'consent_required', 'login_required', 'interaction_required'];
+
+// Provider-specific errors for a user backing out (Apple, Microsoft)
+const CANCELLED_ERRORS = ['cancelled', 'user_cancelled', 'user_cancelled_authorize'];
+
+/**
+ * Error with a stable code, keeping the provider's RFC 6749 error details
+ */
+export class OAuthError extends Error {
+  readonly code: OAuthErrorCode;
+  readonly error?: string;
+  readonly errorDescription?: string;
+  readonly errorUri?: string;
+  readonly cause?: unknown;
+
+  constructor(code: OAuthErrorCode, message?: string, options: OAuthErrorOptions = {}) {
+    super(message || options.errorDescription || options.error || ERROR_MESSAGES[code]);
+    this.name = 'OAuthError';
+    this.code = code;
+    this.error = options.error;
+    this.errorDescription = options.errorDescription;
+    this.errorUri = options.errorUri;
+    this.cause = options.cause;
+  }
+
+  /**
+   * Serialize for a URL (callback redirect or deeplink)
+   */
+  toParams(): Record<string, string> {
+    const params: Record<string, string> = {
+      error: this.error || this.code,
+      error_description: this.errorDescription || this.message,
+      [ERROR_CODE_PARAM]: this.code,
+    };
+    if (this.errorUri) {
+      params.error_uri = this.errorUri;
+    }
+    return params;
+  }
+
+  /**
+   * Read an error from callback/deeplink params
+   * @returns null when the params carry no error
+   */
+  static fromParams(params: Record<string, string>): OAuthError | null {
+    if (!params.error) {
+      return null;
+    }
+
+    const kitCode = params[ERROR_CODE_PARAM] as OAuthErrorCode;
+    const code = ERROR_CODES.includes(kitCode) ? kitCode : codeForProviderError(params.error);
+    return new OAuthError(code, undefined, {
+      error: params.error,
+      errorDescription: params.error_description,
+      errorUri: params.error_uri,
+    });
+  }
+
+  /**
+   * Read an RFC 6749 error body from a failed response (token endpoint, etc.)
+   */
+  static async fromResponse(response: Response, code: OAuthErrorCode, message: string): Promise<OAuthError> {
+    const text = await response.text().catch(() => '');
+    try {
+      const body = JSON.parse(text);
+      return new OAuthError(code, `${message}: ${body.error_description || body.error || text}`, {
+        error: body.error,
+        errorDescription: body.error_description,
+        errorUri: body.error_uri,
+      });
+    } catch {
+      return new OAuthError(code, `${message}: ${text || response.status}`);
+    }
+  }
+
+  /**
+   * Wrap anything thrown into an OAuthError
+   * fetch rejects with a TypeError when the network is down.
+   */
+  static from(error: unknown, code: OAuthErrorCode): OAuthError {
+    if (error instanceof OAuthError) {
+      return error;
+    }
+    if (error instanceof TypeError) {
+      return new OAuthError('network_error', error.message, { cause: error });
+    }
+    const message = error instanceof Error ? error.message : undefined;
+    return new OAuthError(code, message, { cause: error });
+  }
+}
+
+function codeForProviderError(error: string): OAuthErrorCode {
+  if (DENIED_ERRORS.includes(error)) {
+    return 'access_denied';
+  }
+  if (CANCELLED_ERRORS.includes(error)) {
+    return 'cancelled';
+  }
+  return 'invalid_response';
+}
+
+const ERROR_MESSAGES: Record<OAuthErrorCode, string> = {
+  access_denied: 'Sign in was denied',
+  cancelled: 'Sign in was cancelled',
+  state_mismatch: 'OAuth state verification failed',
+  token_exchange_failed: 'Token exchange failed',
+  network_error: 'Network error, please check your connection',
+  invalid_response: 'Invalid response from the OAuth provider',
+  expired_session: 'Your session has expired, please sign in again',
+  discovery_failed: 'Failed to load the OpenID Connect configuration',
+};
+
+/**
+ * Why a returned `state` was rejected
+ * - missing: callback had no state parameter
+ * - unknown: state was never issued by this app (or already cleaned up)
+ * - expired: state was issued but its flow timed out
+ * - replayed: state was already used by a completed callback
+ */
+export type OAuthStateErrorReason = 'missing' | 'unknown' | 'expired' | 'replayed';
+
+/**
+ * Thrown when the `state` returned on callback fails verification (CSRF protection)
+ */
+export class OAuthStateError extends OAuthError {
+  readonly reason: OAuthStateErrorReason;
+
+  constructor(reason: OAuthStateErrorReason) {
+    super('state_mismatch', STATE_ERROR_MESSAGES[reason]);
+    this.name = 'OAuthStateError';
+    this.reason = reason;
+  }
+}
+
+const STATE_ERROR_MESSAGES: Record<OAuthStateErrorReason, string> = {
+  missing: 'OAuth callback is missing the state parameter',
+  unknown: 'OAuth state does not match any sign-in started by this app',
+  expired: 'OAuth sign-in expired, please try again',
+  replayed: 'OAuth callback was already processed',
+};
@@ -0,0 +1,68 @@
+/**
+ * OAuth Kit - Handoff Store
+ * Moves a native sign-in result from the browser session to the WebView through
+ * a one-time code, so tokens never appear in the deeplink
+ */
+
+import type { HandoffStore, HandoffBinding, HandoffRedemption, AuthResult } from './types';
+import { OAuthError } from './errors';
+
+export interface RemoteHandoffStoreOptions {
+  /**
+   * Handoff endpoint of your backend (e.g. 'https://api.myapp.com/oauth/handoff')
+   * Codes are created with `POST {endpoint}` and redeemed with `POST {endpoint}/redeem`.
+   */
+  endpoint: string;
+
+  /** Optional: Extra request headers (e.g. an API key) */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Handoff store backed by an HTTP endpoint
+ */
+export class RemoteHandoffStore implements HandoffStore {
+  private endpoint: string;
+  private headers: Record<string, string>;
+
+  constructor(options: RemoteHandoffStoreOptions) {
+    this.endpoint = options.endpoint.replace(/\/$/, ''); // Remove trailing slash
+    this.headers = options.headers || {};
+  }
+
+  async create(result: AuthResult, binding: HandoffBinding): Promise<string> {
+    const response = await this.post(this.endpoint, { result, ...binding });
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'token_exchange_failed', 'Handoff failed');
+    }
+
+    const data = await response.json();
+    if (!data.code) {
+      throw new OAuthError('invalid_response', 'Handoff failed: no code returned');
+    }
+    return data.code;
+  }
+
+  async redeem(code: string, redemption: HandoffRedemption): Promise<AuthResult> {
+    const response = await this.post(`${this.endpoint}/redeem`, { code, ...redemption });
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'token_exchange_failed', 'Handoff redemption failed');
+    }
+
+    const data = await response.json();
+    return data.result;
+  }
+
+  private post(url: string, body: unknown): Promise<Response> {
+    return fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+    });
+  }
+}
@@ -5,3 +5,13 @@
 export * from './types';
 export * from './despia-handler';
 export * from './oauth-manager';
+export * from './pkce';
+export * from './errors';
+export * from './state-store';
+export * from './session-store';
+export * from './tab-sync';
+export * from './popup';
+export * from './handoff-store';
+export * from './pending-flow';
+export * from './native-bridge';
+export * from './oidc';
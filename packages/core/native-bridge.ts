@@ -0,0 +1,113 @@
+/**
+ * OAuth Kit - Native Bridges
+ * Fake bridge for tests, and the `?oauthkit_force_native` debug mode that runs
+ * the native flow in a regular browser tab
+ */
+
+import type { NativeBridge, NativeAuthStrategy } from './types';
+
+/**
+ * Query param that turns on the native debug mode (`?oauthkit_force_native=0` turns it off)
+ */
+export const FORCE_NATIVE_PARAM = 'oauthkit_force_native';
+
+// The flag has to survive the navigations of the flow itself
+const FORCE_NATIVE_KEY = 'oauthkit_force_native';
+
+export interface FakeNativeBridgeOptions {
+  /** What detect() reports (default: true) */
+  native?: boolean;
+
+  /** What selectStrategy() reports (default: 'auth-session') */
+  strategy?: NativeAuthStrategy;
+
+  /** Navigate this window to opened URLs instead of only recording them (default: false) */
+  navigate?: boolean;
+
+  /**
+   * Return "deeplinks" go to `{returnUrl}/{path}` instead of `{scheme}://oauth/{path}`
+   * (e.g. the app URL, so a browser can follow them)
+   */
+  returnUrl?: string;
+}
+
+/**
+ * Fake bridge - records what the kit asks of the wrapper
+ *
+ * @example
+ * const bridge = new FakeNativeBridge();
+ * const manager = new OAuthManager({ ...config, nativeBridge: bridge });
+ * await manager.signIn('google');
+ * bridge.openedUrls[0]; // '/native-callback?oauthkit_start=google&...'
+ */
+export class FakeNativeBridge implements NativeBridge {
+  readonly name = 'fake';
+
+  /** Every URL passed to openAuthSession/openExternal, in order */
+  readonly openedUrls: string[] = [];
+
+  private native: boolean;
+  private strategy: NativeAuthStrategy;
+  private navigate: boolean;
+  private returnUrl: string | null;
+
+  constructor(options: FakeNativeBridgeOptions = {}) {
+    this.native = options.native ?? true;
+    this.strategy = options.strategy ?? 'auth-session';
+    this.navigate = options.navigate ?? false;
+    this.returnUrl = options.returnUrl ? options.returnUrl.replace(/\/$/, '') : null;
+  }
+
+  detect(): boolean {
+    return this.native;
+  }
+
+  selectStrategy(): NativeAuthStrategy {
+    return this.strategy;
+  }
+
+  openAuthSession(url: string): void {
+    this.openedUrls.push(url);
+    if (this.navigate && typeof window !== 'undefined') {
+      window.location.href = url;
+    }
+  }
+
+  openExternal(url: string): void {
+    this.openAuthSession(url);
+  }
+
+  buildReturnDeeplink(path: string, params: Record<string, string>, scheme: string): string {
+    const query = new URLSearchParams(params).toString();
+    const cleanPath = path.replace(/^\//, '');
+    if (this.returnUrl) {
+      return `${this.returnUrl}/${cleanPath}?${query}`;
+    }
+    return `${scheme}://oauth/${cleanPath}?${query}`;
+  }
+}
+
+/**
+ * Whether the native debug mode is on for this tab
+ * Reads `?oauthkit_force_native` and remembers it in sessionStorage.
+ */
+export function isNativeForced(): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  try {
+    const param = new URLSearchParams(window.location.search).get(FORCE_NATIVE_PARAM);
+    if (param !== null) {
+      if (param === '0' || param === 'false') {
+        sessionStorage.removeItem(FORCE_NATIVE_KEY);
+      } else {
+        sessionStorage.setItem(FORCE_NATIVE_KEY, '1');
+      }
+    }
+    return sessionStorage.getItem(FORCE_NATIVE_KEY) === '1';
+  } catch {
+    // sessionStorage unavailable
+    return false;
+  }
+}
@@ -3,46 +3,321 @@
  * Universal OAuth flow orchestration (same structure for all providers)
  */
 
-import type { OAuthProvider, OAuthKitConfig, Session, TokenSet, AuthResult } from './types';
-import { isDespiaNative, openDespiaOAuth, createDespiaDeeplink } from './despia-handler';
+import type {
+  OAuthProvider,
+  OAuthKitConfig,
+  Session,
+  SessionStore,
+  AuthResult,
+  CallbackContext,
+  User,
+  AuthChangeEvent,
+  AuthStateListener,
+  SignInOptions,
+  HandoffStore,
+  NativeBridge,
+  NativeAuthStrategy,
+  SignOutOptions,
+} from './types';
+import { DespiaBridge } from './despia-handler';
+import { FakeNativeBridge, isNativeForced } from './native-bridge';
+import { generateCodeVerifier, createCodeChallenge } from './pkce';
+import { OAuthError } from './errors';
+import { generateNonce, verifyIdToken, userFromClaims, decodeJwt, type IdTokenClaims } from './oidc';
+import { OAuthStateStore, type FlowState, type FlowMode } from './state-store';
+import { LocalStorageSessionStore } from './session-store';
+import { TabSync } from './tab-sync';
+import { PendingFlowTracker, type PendingFlowCancelReason } from './pending-flow';
+import { openPopup, waitForPopupCallback, isPopupCallback, postToOpener } from './popup';
+
+/**
+ * Query param that tells `/native-callback` to start the flow inside the browser session.
+ * Native flows begin there (not in the WebView) so the PKCE verifier is stored in the
+ * same storage that the callback later reads from.
+ */
+export const NATIVE_START_PARAM = 'oauthkit_start';
+
+/**
+ * Query param carrying the WebView flow's state to the browser session (native only)
+ */
+export const NATIVE_FLOW_PARAM = 'oauthkit_flow';
+
+/**
+ * Query param carrying the return-to destination to the browser session (native only)
+ */
+export const NATIVE_RETURN_TO_PARAM = 'oauthkit_return_to';
+
+/**
+ * Query param carrying the WebView's handoff challenge to the browser session (native only)
+ */
+export const NATIVE_HANDOFF_PARAM = 'oauthkit_handoff';
+
+/**
+ * Query param telling the browser session how to return to the WebView (native only)
+ */
+export const NATIVE_RETURN_VIA_PARAM = 'oauthkit_return_via';
+
+/**
+ * Deeplink param carrying the return-to destination back to the WebView
+ */
+export const RETURN_TO_PARAM = 'return_to';
+
+/**
+ * Deeplink param carrying the one-time handoff code back to the WebView
+ */
+export const HANDOFF_CODE_PARAM = 'handoff_code';
+
+/**
+ * Data the WebView passes to the browser session when starting a native flow
+ */
+export interface NativeStartOptions {
+  /** State of the WebView flow, echoed back in the closing deeplink */
+  parentState?: string;
+
+  /** Destination in the WebView after sign in, echoed back in the deeplink */
+  returnTo?: string;
+
+  /** Challenge to bind the handoff code to (handoff mode) */
+  handoffChallenge?: string;
+
+  /** How to return to the WebView (default: custom-scheme deeplink) */
+  returnVia?: string;
+}
+
+/**
+ * End-session `state` of native logouts that return through a universal link
+ * ('external-browser' strategy) instead of a custom-scheme deeplink
+ */
+export const NATIVE_LOGOUT_UNIVERSAL_LINK_STATE = 'oauthkit_universal_link';
+
+/**
+ * Fallback query param for the kit's state
+ * Server-side callback providers (Supabase-style) that don't echo `state` back can append
+ * `oauthkit_state=<state>` to the redirectUri they send the user to.
+ */
+export const STATE_PARAM = 'oauthkit_state';
+
+/**
+ * Result of a completed callback
+ */
+export interface CompletedCallback {
+  result: AuthResult;
+  flow: FlowState;
+
+  /** Validated app path to continue at (from `signIn(provider, { returnTo })`) */
+  returnTo?: string;
+}
+
+// Caller-supplied data stored with a flow
+type FlowData = Pick<FlowState, 'parentState' | 'returnTo' | 'handoffChallenge' | 'returnVia'>;
+
+// SessionStore keys: one session per provider, plus the provider of the active session
+const SESSION_KEY_PREFIX = 'session.';
+const ACTIVE_PROVIDER_KEY = 'active_provider';
+
+// Provider name for sessions created before a name was known
+const DEFAULT_PROVIDER_NAME = 'default';
+
+// Cross-tab lock held while spending a refresh token
+const REFRESH_LOCK = 'refresh';
+
+// setTimeout delays are 32-bit signed integers
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// Retry delay after a failed background refresh (ms)
+const REFRESH_RETRY_DELAY = 30 * 1000;
 
 /**
  * Universal OAuth Manager
  * Standardized flow - same structure for ALL providers
  */
 export class OAuthManager {
-  private provider: OAuthProvider;
+  // Named providers, plus the single `provider` of older configs (handles any name)
+  private providers: Record<string, OAuthProvider>;
+  private defaultProvider: OAuthProvider | null;
   private appUrl: string;
   private deeplinkScheme: string;
+  private stateStore: OAuthStateStore;
+  private sessionStore: SessionStore;
+  private handoffStore: HandoffStore | null;
+  private nativeBridge: NativeBridge;
+  private autoRefresh: boolean;
+  private refreshLeeway: number;
+  private revokeTimeout: number;
+
+  // Single in-flight refresh shared by all callers
+  private refreshPromise: Promise<Session | null> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private autoRefreshActive = false;
+
+  // Auth state subscribers, and the provider bridges while there are any
+  private listeners = new Set<AuthStateListener>();
+  private unsubscribeProviders: Array<() => void> = [];
+
+  // Native sign-in waiting for its deeplink
+  private pendingFlow: PendingFlowTracker;
+
+  // Other tabs/windows of this app (null when crossTabSync is off)
+  private tabSync: TabSync | null;
+  private unsubscribeTabs: (() => void) | null = null;
 
   // Standard redirect URIs (same for ALL providers)
   private readonly WEB_CALLBACK_PATH = '/auth/callback';
   private readonly NATIVE_CALLBACK_PATH = '/native-callback';
+  private readonly NATIVE_LOGOUT_PATH = '/native-logout';
 
   constructor(config: OAuthKitConfig) {
-    this.provider = config.provider;
+    this.providers = { ...config.providers };
+    this.defaultProvider = config.provider || null;
+    if (!this.defaultProvider && Object.keys(this.providers).length === 0) {
+      throw new Error('OAuthKitConfig requires `provider` or `providers`');
+    }
     this.appUrl = config.appUrl.replace(/\/$/, ''); // Remove trailing slash
     this.deeplinkScheme = config.deeplinkScheme;
+    this.stateStore = new OAuthStateStore({ ttl: config.stateTtl });
+    this.sessionStore = config.sessionStore || new LocalStorageSessionStore();
+    this.handoffStore = config.handoffStore || null;
+    this.nativeBridge = config.nativeBridge || this.createDefaultBridge();
+    this.autoRefresh = config.autoRefresh ?? true;
+    this.refreshLeeway = (config.refreshLeeway ?? 60) * 1000;
+    this.revokeTimeout = (config.revokeTimeout ?? 5) * 1000;
+    this.pendingFlow = new PendingFlowTracker({
+      timeout: (config.signInTimeout ?? config.stateTtl ?? 600) * 1000,
+      onCancel: this.handleSignInCancelled,
+    });
+    this.tabSync = config.crossTabSync === false ? null : new TabSync(config.syncChannel || 'oauth_kit');
   }
 
   /**
    * Sign in with OAuth provider
    * Standardized flow - same for ALL providers
+   *
+   * @returns The AuthResult in popup mode (redirects leave the page instead)
    */
-  async signIn(providerName: string): Promise<void> {
-    const isNative = isDespiaNative();
-    const redirectUri = isNative 
-      ? `${this.appUrl}${this.NATIVE_CALLBACK_PATH}`
-      : `${this.appUrl}${this.WEB_CALLBACK_PATH}`;
+  async signIn(providerName: string, options: SignInOptions = {}): Promise<AuthResult | void> {
+    // Fail fast on unknown names and foreign destinations
+    this.getProvider(providerName);
+    const returnTo = this.resolveReturnTo(options.returnTo);
+    if (options.returnTo && !returnTo) {
+      throw new Error(`returnTo must be a path on ${this.appUrl}: ${options.returnTo}`);
+    }
 
-    const state = this.generateState();
-    this.storeState(state);
+    if (this.nativeBridge.detect()) {
+      const strategy = this.nativeBridge.selectStrategy?.() ?? 'auth-session';
+      if (strategy !== 'in-webview') {
+        await this.signInNative(providerName, strategy, returnTo);
+        return;
+      }
+      // No usable browser session in this app version - sign in inside the WebView
+      await this.beginAuthorization(providerName, `${this.appUrl}${this.WEB_CALLBACK_PATH}`, { returnTo });
+      return;
+    }
 
-    // Provider generates URL (their implementation, our structure)
-    const oauthUrl = await this.provider.getOAuthUrl(providerName, redirectUri, state);
+    if (options.mode === 'popup') {
+      // Open before anything async - popups are only allowed in the click's own task
+      const popup = openPopup(options.popup);
+      if (popup) {
+        return this.signInWithPopup(providerName, popup);
+      }
+      console.warn('OAuth Kit: sign in popup was blocked, falling back to redirect');
+    }
+
+    await this.beginAuthorization(providerName, `${this.appUrl}${this.WEB_CALLBACK_PATH}`, { returnTo });
+  }
+
+  /**
+   * Hand callback params to the window that opened this sign-in popup
+   * Called by Callback; the opener verifies the state and exchanges the code.
+   *
+   * @returns false when this page isn't a sign-in popup
+   */
+  relayPopupCallback(params: Record<string, string>): boolean {
+    if (!isPopupCallback()) {
+      return false;
+    }
+    postToOpener(params, new URL(this.appUrl).origin);
+    return true;
+  }
+
+  /**
+   * Start native flow inside the browser session (ASWebAuthenticationSession/Chrome Custom Tab)
+   * Called by NativeCallback when opened with the start param
+   */
+  async startNativeFlow(providerName: string, options: NativeStartOptions = {}): Promise<void> {
+    await this.beginAuthorization(providerName, `${this.appUrl}${this.NATIVE_CALLBACK_PATH}`, {
+      parentState: options.parentState,
+      returnTo: this.resolveReturnTo(options.returnTo),
+      handoffChallenge: options.handoffChallenge,
+      returnVia: options.returnVia === 'universal-link' ? 'universal-link' : undefined,
+    });
+  }
+
+  /**
+   * Complete OAuth callback: verify state, exchange params for tokens and set session
+   * The state is validated before the provider sees the params, and the flow it
+   * belongs to tells which provider handles the callback.
+   *
+   * @param provider Optional override for the provider recorded with the flow
+   * @throws OAuthStateError when state is missing, unknown, expired or replayed
+   * @throws OAuthError for provider errors and failed exchanges
+   */
+  async completeCallback(
+    params: Record<string, string>,
+    provider?: OAuthProvider
+  ): Promise<CompletedCallback> {
+    const state = params[STATE_PARAM] || params.state;
+    this.pendingFlow.settle(state);
+
+    // Provider returned an error - drop the flow and report it
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      this.stateStore.discard(state);
+      throw callbackError;
+    }
+
+    const flow = this.stateStore.consume(state);
+    const providerName = flow.provider || DEFAULT_PROVIDER_NAME;
+    const flowProvider = provider || this.getProvider(providerName);
+
+    let result: AuthResult;
+    try {
+      if (flow.mode === 'native') {
+        // Deeplink back into the WebView: the browser session obtained the result
+        result = await this.receiveNativeResult(params, flow);
+      } else {
+        // Provider handles callback (their implementation, our structure)
+        result = await flowProvider.handleCallback(params, {
+          codeVerifier: flow.codeVerifier,
+          redirectUri: flow.redirectUri,
+          nonce: flow.nonce,
+          handoffChallenge: flow.handoffChallenge,
+        });
+      }
+    } catch (error) {
+      throw OAuthError.from(error, 'token_exchange_failed');
+    }
+
+    if (!result || !result.access_token) {
+      throw new OAuthError('invalid_response', 'Invalid OAuth response: missing access_token');
+    }
 
-    // Open using Despia (same for all providers)
-    await openDespiaOAuth(oauthUrl);
+    // Set session (same for all providers)
+    let session: Session;
+    try {
+      // The WebView side of a native flow never saw the nonce - the browser session checked it
+      const claims = await this.verifyResultIdToken(flowProvider, result, flow.nonce);
+      session = await this.persistSession(flowProvider, providerName, result, claims, {
+        handoffVerifier: flow.handoffVerifier,
+      });
+    } catch (error) {
+      throw OAuthError.from(error, 'invalid_response');
+    }
+    this.scheduleRefresh(session);
+    this.emit('SIGNED_IN', session);
+
+    // The WebView's own flow is authoritative, the deeplink copy covers flows without one
+    const returnTo = flow.returnTo || this.resolveReturnTo(params[RETURN_TO_PARAM]);
+    return { result, flow, returnTo };
   }
 
   /**
@@ -54,30 +329,14 @@ export class OAuthManager {
     isNative: boolean = false
   ): Promise<{ redirectUrl: string }> {
     try {
-      // Provider handles callback (their implementation, our structure)
-      const result = await this.provider.handleCallback(params);
-
-      // Set session (same for all providers)
-      await this.provider.setSession({
-        access_token: result.access_token,
-        refresh_token: result.refresh_token,
-        expires_in: result.expires_in,
-      });
+      const { result, flow } = await this.completeCallback(params);
 
       if (isNative) {
         // Native: redirect to deeplink (standardized format)
-        const deeplinkParams: Record<string, string> = {
-          access_token: result.access_token,
-        };
-
-        if (result.refresh_token) {
-          deeplinkParams.refresh_token = result.refresh_token;
-        }
-
-        const deeplink = createDespiaDeeplink(
+        const deeplink = this.createNativeReturnUrl(
           'callback', // Will navigate to /auth/callback in WebView
-          deeplinkParams,
-          this.deeplinkScheme
+          await this.createNativeReturnParams(result, flow),
+          flow.state
         );
         return { redirectUrl: deeplink };
       } else {
@@ -85,65 +344,969 @@ export class OAuthManager {
         return { redirectUrl: `${this.appUrl}${this.WEB_CALLBACK_PATH}` };
       }
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Authentication failed';
-      
+      const oauthError = OAuthError.from(error, 'invalid_response');
+      const flowState = params[STATE_PARAM] || params.state;
+
       if (isNative) {
-        const deeplink = createDespiaDeeplink(
+        const deeplink = this.createNativeReturnUrl(
           'callback',
-          { error: errorMsg },
-          this.deeplinkScheme
+          this.createNativeErrorParams(oauthError, flowState),
+          flowState
         );
         return { redirectUrl: deeplink };
       } else {
-        return { redirectUrl: `${this.appUrl}${this.WEB_CALLBACK_PATH}?error=${encodeURIComponent(errorMsg)}` };
+        const query = new URLSearchParams(oauthError.toParams()).toString();
+        return { redirectUrl: `${this.appUrl}${this.WEB_CALLBACK_PATH}?${query}` };
       }
     }
   }
 
+  /**
+   * Build deeplink params that hand a browser-session result back to the WebView
+   * Includes the WebView flow's state so the WebView can verify it. In handoff mode
+   * the result is parked in the HandoffStore and only a one-time code is sent.
+   */
+  async createNativeReturnParams(result: AuthResult, flow: FlowState): Promise<Record<string, string>> {
+    const params: Record<string, string> = {};
+
+    if (flow.handoffChallenge) {
+      if (!this.handoffStore || !flow.parentState) {
+        throw new Error('Native handoff requested, but no handoffStore is configured');
+      }
+      params[HANDOFF_CODE_PARAM] = await this.handoffStore.create(result, {
+        state: flow.parentState,
+        challenge: flow.handoffChallenge,
+      });
+    } else {
+      params.access_token = result.access_token;
+
+      if (result.refresh_token) {
+        params.refresh_token = result.refresh_token;
+      }
+
+      if (result.expires_in) {
+        params.expires_in = String(result.expires_in);
+      }
+
+      if (result.id_token) {
+        params.id_token = result.id_token;
+      }
+    }
+
+    if (flow.parentState) {
+      params.state = flow.parentState;
+    }
+
+    if (flow.returnTo) {
+      params[RETURN_TO_PARAM] = flow.returnTo;
+    }
+
+    return params;
+  }
+
+  /**
+   * Build deeplink params that report a failed browser-session flow to the WebView
+   * Includes the WebView flow's state so the WebView can settle its pending sign in.
+   *
+   * @param flowState State of the browser-session flow that failed
+   */
+  createNativeErrorParams(error: OAuthError, flowState?: string): Record<string, string> {
+    const params = error.toParams();
+    const parentState = flowState ? this.stateStore.peek(flowState)?.parentState : undefined;
+    if (parentState) {
+      params.state = parentState;
+    }
+    return params;
+  }
+
+  /**
+   * Get a configured provider by name
+   * Without a name, returns the only configured provider.
+   */
+  getProvider(name?: string): OAuthProvider {
+    if (name && this.providers[name]) {
+      return this.providers[name];
+    }
+    if (this.defaultProvider) {
+      return this.defaultProvider;
+    }
+
+    const names = Object.keys(this.providers);
+    if (!name && names.length === 1) {
+      return this.providers[names[0]];
+    }
+    throw new Error(`Unknown OAuth provider: ${name || '(none)'}. Configured: ${names.join(', ')}`);
+  }
+
+  /**
+   * Names of the providers configured in `providers`
+   */
+  getProviderNames(): string[] {
+    return Object.keys(this.providers);
+  }
+
   /**
    * Sign out
+   * Revokes the session's tokens at the provider (best-effort) before clearing local state.
+   * With `global`, then opens the provider's end-session URL as well.
    */
-  async signOut(): Promise<void> {
-    await this.provider.signOut();
+  async signOut(options: SignOutOptions = {}): Promise<void> {
+    const session = await this.readSession();
+
+    // Built first: the logout request needs the ID token being cleared
+    const endSession = options.global ? await this.createEndSession(session, options.returnTo) : null;
+
+    if (session) {
+      await this.revokeTokens(session);
+    }
+    await this.clearSession('SIGNED_OUT');
+
+    if (endSession) {
+      await this.openEndSession(endSession.url, endSession.strategy);
+    }
   }
 
   /**
    * Get current session
+   * Refreshes first when the session is about to expire
    */
   async getSession(): Promise<Session | null> {
-    return this.provider.getSession();
+    const session = await this.readSession();
+
+    if (session && this.shouldRefresh(session)) {
+      return this.refreshSession();
+    }
+
+    // Expired and can't be refreshed
+    if (session?.expires_at && session.expires_at <= Date.now()) {
+      await this.clearSession('SESSION_EXPIRED');
+      return null;
+    }
+
+    this.scheduleRefresh(session);
+    return session;
+  }
+
+  /**
+   * Refresh the current session using its refresh token
+   * Concurrent callers share a single in-flight refresh.
+   */
+  refreshSession(): Promise<Session | null> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  /**
+   * Re-fetch the user for the current session (emits USER_UPDATED)
+   */
+  async refreshUser(): Promise<Session | null> {
+    const current = await this.readSession();
+    const provider = current && this.providerFor(current);
+    if (!current || !provider?.getUser) {
+      return current;
+    }
+
+    const session: Session = {
+      ...current,
+      user: await provider.getUser(current.access_token),
+    };
+    await this.writeSession(session);
+    this.emit('USER_UPDATED', session);
+    return session;
+  }
+
+  /**
+   * Subscribe to auth state changes
+   * The listener first receives INITIAL_SESSION with the current session.
+   * @returns Unsubscribe function
+   */
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    this.listeners.add(listener);
+
+    // Bridge provider-side changes while anyone is listening
+    if (this.listeners.size === 1) {
+      this.subscribeProviders();
+    }
+
+    // ...and changes made in other tabs
+    if (!this.unsubscribeTabs && this.tabSync) {
+      this.unsubscribeTabs = this.tabSync.subscribe(this.handleRemoteChange);
+    }
+
+    this.getSession().then(
+      (session) => {
+        if (this.listeners.has(listener)) {
+          listener('INITIAL_SESSION', session);
+        }
+      },
+      () => {
+        if (this.listeners.has(listener)) {
+          listener('INITIAL_SESSION', null);
+        }
+      }
+    );
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.unsubscribeProviders.forEach((unsubscribe) => unsubscribe());
+        this.unsubscribeProviders = [];
+        this.unsubscribeTabs?.();
+        this.unsubscribeTabs = null;
+      }
+    };
+  }
+
+  /**
+   * Start refreshing sessions ahead of expiry and when the app resumes
+   * Call once when the app mounts (OAuthProvider does this for React apps)
+   */
+  startAutoRefresh(): void {
+    if (!this.autoRefresh || this.autoRefreshActive) {
+      return;
+    }
+    this.autoRefreshActive = true;
+
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+
+    // Schedule (or refresh right away) for an existing session
+    this.getSession().catch(() => {
+      // Session errors surface through getSession callers
+    });
+  }
+
+  /**
+   * Stop background refresh
+   */
+  stopAutoRefresh(): void {
+    this.autoRefreshActive = false;
+    this.clearRefreshTimer();
+
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Create deeplink URL that closes the browser session (through the native bridge)
+   *
+   * @param scheme Deeplink scheme (default: config.deeplinkScheme)
+   */
+  createDeeplink(path: string, params: Record<string, string>, scheme: string = this.deeplinkScheme): string {
+    return this.nativeBridge.buildReturnDeeplink(path, params, scheme);
+  }
+
+  /**
+   * URL that hands a browser-session result back to the WebView
+   * A custom-scheme deeplink, or a universal link to appUrl for flows started with
+   * the 'external-browser' strategy.
+   *
+   * @param flowState State of the browser-session flow (decides how to return)
+   * @param scheme Deeplink scheme (default: config.deeplinkScheme)
+   */
+  createNativeReturnUrl(
+    path: string,
+    params: Record<string, string>,
+    flowState?: string,
+    scheme: string = this.deeplinkScheme
+  ): string {
+    if (flowState && this.stateStore.peek(flowState)?.returnVia === 'universal-link') {
+      const query = new URLSearchParams(params).toString();
+      return `${this.appUrl}/${path.replace(/^\//, '')}?${query}`;
+    }
+    return this.createDeeplink(path, params, scheme);
+  }
+
+  /**
+   * URL that closes the browser session of a native global sign out
+   * Called by NativeLogout with the params the provider redirected to `/native-logout` with.
+   *
+   * @param scheme Deeplink scheme (default: config.deeplinkScheme)
+   */
+  createNativeLogoutReturnUrl(
+    path: string,
+    params: Record<string, string>,
+    scheme: string = this.deeplinkScheme
+  ): string {
+    if (params.state === NATIVE_LOGOUT_UNIVERSAL_LINK_STATE) {
+      return `${this.appUrl}/${path.replace(/^\//, '')}`;
+    }
+    return this.createDeeplink(path, {}, scheme);
+  }
+
+  /**
+   * Native wrapper integration in use
+   */
+  getNativeBridge(): NativeBridge {
+    return this.nativeBridge;
+  }
+
+  /**
+   * Exchange refresh token and store the new tokens
+   */
+  private async performRefresh(): Promise<Session | null> {
+    const seen = await this.readSession();
+    if (!seen?.refresh_token || !this.providerFor(seen)?.refreshSession) {
+      return seen;
+    }
+
+    if (!this.tabSync) {
+      return this.refreshWith(seen);
+    }
+
+    // Only one tab may spend a (rotating) refresh token
+    return this.tabSync.withLock(REFRESH_LOCK, async () => {
+      const current = await this.readSession();
+
+      // Another tab refreshed (or signed out) while we waited for the lock
+      if (!current || current.refresh_token !== seen.refresh_token) {
+        this.scheduleRefresh(current);
+        return current;
+      }
+
+      return this.refreshWith(current);
+    });
   }
 
   /**
-   * Create deeplink URL (helper for error cases)
+   * Spend the session's refresh token and persist the new tokens
    */
-  createDeeplink(path: string, params: Record<string, string>): string {
-    return createDespiaDeeplink(path, params, this.deeplinkScheme);
+  private async refreshWith(current: Session): Promise<Session | null> {
+    const provider = this.providerFor(current);
+    if (!current.refresh_token || !provider?.refreshSession) {
+      return current;
+    }
+
+    let result: AuthResult;
+    try {
+      result = await provider.refreshSession(current.refresh_token);
+    } catch (error) {
+      const refreshError = OAuthError.from(error, 'token_exchange_failed');
+
+      // Refresh token rejected (invalid_grant, or a provider that already reported the
+      // session as over), or access token already unusable - the session is over
+      const expired = !!current.expires_at && current.expires_at <= Date.now();
+      if (expired || refreshError.error === 'invalid_grant' || refreshError.code === 'expired_session') {
+        await this.clearSession('SESSION_EXPIRED');
+        return null;
+      }
+      throw refreshError;
+    }
+
+    // A refreshed ID token must belong to the same user (OIDC Core 12.2)
+    const claims = await this.verifyResultIdToken(provider, result);
+    if (claims && current.id_token && decodeJwt(current.id_token).sub !== claims.sub) {
+      throw new OAuthError('invalid_response', 'Refreshed ID token belongs to a different user');
+    }
+
+    const session = await this.persistSession(provider, current.provider || DEFAULT_PROVIDER_NAME, {
+      ...result,
+      // Keep the old refresh token unless the server rotated it
+      refresh_token: result.refresh_token || current.refresh_token,
+      id_token: result.id_token || current.id_token,
+      user: result.user || (claims ? userFromClaims(claims) : current.user),
+    });
+    this.scheduleRefresh(session);
+    this.emit('TOKEN_REFRESHED', session);
+    return session;
   }
 
   /**
-   * Generate random state for CSRF protection
+   * Revoke refresh and access token, giving up after revokeTimeout
+   * Failures are logged - an unreachable provider must not keep the user signed in.
    */
-  private generateState(): string {
-    if (typeof crypto !== 'undefined' && crypto.randomUUID) {
-      return crypto.randomUUID();
+  private async revokeTokens(session: Session): Promise<void> {
+    const provider = this.providerFor(session);
+    if (!provider?.revokeToken) {
+      return;
+    }
+
+    // Refresh token first: revoking it also ends its grant's access tokens at most providers
+    const revocations: Promise<void>[] = [];
+    if (session.refresh_token) {
+      revocations.push(provider.revokeToken(session.refresh_token, 'refresh_token'));
+    }
+    revocations.push(provider.revokeToken(session.access_token, 'access_token'));
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timer = setTimeout(() => resolve('timeout'), this.revokeTimeout);
+    });
+
+    try {
+      const outcome = await Promise.race([Promise.allSettled(revocations), timeout]);
+      if (outcome === 'timeout') {
+        console.warn('OAuth Kit: token revocation timed out, signing out locally');
+        return;
+      }
+      for (const result of outcome) {
+        if (result.status === 'rejected') {
+          console.warn('OAuth Kit: token revocation failed:', result.reason);
+        }
+      }
+    } finally {
+      clearTimeout(timer);
     }
-    return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
   }
 
   /**
-   * Store OAuth state (for verification on callback)
+   * Provider logout URL for a global sign out, and how to open it
+   * Native browser sessions come back through /native-logout, everything else through returnTo.
+   *
+   * @returns null when the provider has no end-session endpoint
    */
-  private storeState(state: string): void {
+  private async createEndSession(
+    session: Session | null,
+    returnTo: string | undefined
+  ): Promise<{ url: string; strategy: NativeAuthStrategy | null } | null> {
+    const provider = session ? this.providerFor(session) : this.findProvider(null);
+    if (!provider?.getEndSessionUrl) {
+      console.warn('OAuth Kit: provider has no end-session URL, signing out locally only');
+      return null;
+    }
+
+    let strategy = this.nativeBridge.detect() ? this.nativeBridge.selectStrategy?.() ?? 'auth-session' : null;
+    if (strategy === 'external-browser' && !this.nativeBridge.openExternal) {
+      strategy = 'auth-session';
+    }
+    const inBrowserSession = strategy === 'auth-session' || strategy === 'external-browser';
+    // returnTo is a path on the app's origin - it already includes appUrl's own path
+    const returnPath = this.resolveReturnTo(returnTo);
+    const url = await provider.getEndSessionUrl({
+      idTokenHint: session?.id_token,
+      postLogoutRedirectUri: inBrowserSession
+        ? `${this.appUrl}${this.NATIVE_LOGOUT_PATH}`
+        : returnPath ? new URL(returnPath, this.appUrl).href : `${this.appUrl}/`,
+      state: strategy === 'external-browser' ? NATIVE_LOGOUT_UNIVERSAL_LINK_STATE : undefined,
+    });
+    if (!url) {
+      console.warn('OAuth Kit: provider has no end-session URL, signing out locally only');
+      return null;
+    }
+
+    return { url, strategy };
+  }
+
+  /**
+   * Open the provider logout URL: in the browser session (native) or this window
+   */
+  private async openEndSession(url: string, strategy: NativeAuthStrategy | null): Promise<void> {
+    if (strategy === 'external-browser' && this.nativeBridge.openExternal) {
+      await this.nativeBridge.openExternal(url);
+      return;
+    }
+    if (strategy === 'auth-session' || strategy === 'external-browser') {
+      await this.nativeBridge.openAuthSession(url);
+      return;
+    }
+
+    // Web, or the in-WebView fallback
+    if (typeof window !== 'undefined') {
+      window.location.href = url;
+    }
+  }
+
+  /**
+   * Clear the persisted session and notify listeners
+   */
+  private async clearSession(event: 'SIGNED_OUT' | 'SESSION_EXPIRED'): Promise<void> {
+    this.clearRefreshTimer();
+    const providerName = await this.removeActiveSession();
+    await this.findProvider(providerName)?.signOut?.();
+    this.emit(event, null);
+  }
+
+  /**
+   * Remove the active provider's session from the store
+   * @returns Name of the provider whose session was removed
+   */
+  private async removeActiveSession(): Promise<string | null> {
+    const providerName = await this.sessionStore.getItem(ACTIVE_PROVIDER_KEY);
+    if (providerName) {
+      await this.sessionStore.removeItem(`${SESSION_KEY_PREFIX}${providerName}`);
+    }
+    await this.sessionStore.removeItem(ACTIVE_PROVIDER_KEY);
+    return providerName;
+  }
+
+  /**
+   * Notify listeners (a throwing listener doesn't stop the others)
+   */
+  private emit(event: AuthChangeEvent, session: Session | null, broadcast: boolean = true): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event, session);
+      } catch (error) {
+        console.error('Auth state listener failed:', error);
+      }
+    }
+
+    if (broadcast) {
+      this.tabSync?.post(event);
+    }
+  }
+
+  /**
+   * Another tab changed the session - re-read it and notify local listeners
+   */
+  private handleRemoteChange = (event: AuthChangeEvent): void => {
+    this.applyRemoteChange(event).catch((error) => {
+      console.error('Failed to apply auth change from another tab:', error);
+    });
+  };
+
+  private async applyRemoteChange(event: AuthChangeEvent): Promise<void> {
+    if (event === 'SIGNED_OUT' || event === 'SESSION_EXPIRED') {
+      // Signing out anywhere signs out everywhere (also when stores aren't shared)
+      this.clearRefreshTimer();
+      await this.removeActiveSession();
+      this.emit(event, null, false);
+      return;
+    }
+
+    const session = await this.readSession();
+    if (!session) {
+      return;
+    }
+    this.scheduleRefresh(session);
+    this.emit(event, session, false);
+  }
+
+  /**
+   * Subscribe to every provider that pushes its own auth changes
+   */
+  private subscribeProviders(): void {
+    const entries: Array<[string, OAuthProvider]> = Object.entries(this.providers);
+    if (this.defaultProvider && !entries.some(([, provider]) => provider === this.defaultProvider)) {
+      entries.push([DEFAULT_PROVIDER_NAME, this.defaultProvider]);
+    }
+
+    for (const [name, provider] of entries) {
+      if (provider.onAuthStateChange) {
+        this.unsubscribeProviders.push(
+          provider.onAuthStateChange((event, session) => {
+            this.applyProviderChange(name, event, session).catch((error) => {
+              console.error('Failed to apply provider auth change:', error);
+            });
+          })
+        );
+      }
+    }
+  }
+
+  /**
+   * Provider reported a change (e.g. its SDK refreshed or signed out on its own)
+   */
+  private async applyProviderChange(
+    providerName: string,
+    event: AuthChangeEvent,
+    session: Session | null
+  ): Promise<void> {
+    if (event === 'INITIAL_SESSION' || event === 'SIGN_IN_CANCELLED') {
+      return;
+    }
+
+    const activeProvider = await this.sessionStore.getItem(ACTIVE_PROVIDER_KEY);
+
+    if (!session || event === 'SIGNED_OUT' || event === 'SESSION_EXPIRED') {
+      // Only the active provider signing out ends the session
+      if (activeProvider !== providerName) {
+        await this.sessionStore.removeItem(`${SESSION_KEY_PREFIX}${providerName}`);
+        return;
+      }
+      this.clearRefreshTimer();
+      await this.removeActiveSession();
+      this.emit(event === 'SESSION_EXPIRED' ? event : 'SIGNED_OUT', null);
+      return;
+    }
+
+    // Echo of a change the manager made itself (e.g. provider.setSession)
+    const current = await this.readSession();
+    if (
+      event !== 'USER_UPDATED' &&
+      activeProvider === providerName &&
+      current?.access_token === session.access_token
+    ) {
+      return;
+    }
+
+    const next: Session = { ...session, provider: providerName };
+    await this.writeSession(next);
+    this.scheduleRefresh(next);
+    this.emit(event, next);
+  }
+
+  /**
+   * Build a session from an auth result and persist it through the SessionStore
+   */
+  private async persistSession(
+    provider: OAuthProvider,
+    providerName: string,
+    result: AuthResult,
+    claims: IdTokenClaims | null = null,
+    context?: CallbackContext
+  ): Promise<Session> {
+    const session: Session = {
+      access_token: result.access_token,
+      refresh_token: result.refresh_token,
+      expires_at: result.expires_in ? Date.now() + result.expires_in * 1000 : undefined,
+      user: await this.resolveUser(provider, result, claims, context),
+      id_token: result.id_token,
+      provider: providerName,
+    };
+
+    await this.writeSession(session);
+
+    // Providers backed by an SDK session (e.g. Supabase) get the tokens too
+    await provider.setSession?.({
+      access_token: result.access_token,
+      refresh_token: result.refresh_token,
+      expires_in: result.expires_in,
+    }, context);
+
+    return session;
+  }
+
+  /**
+   * Verify the result's ID token when the provider supports OpenID Connect
+   * @returns Verified claims, or null without an ID token / OIDC config
+   */
+  private async verifyResultIdToken(
+    provider: OAuthProvider,
+    result: AuthResult,
+    nonce?: string
+  ): Promise<IdTokenClaims | null> {
+    if (!result.id_token || !provider.getOidcConfig) {
+      return null;
+    }
+    const config = await provider.getOidcConfig();
+    return verifyIdToken(result.id_token, config, { nonce });
+  }
+
+  /**
+   * User from the auth result, verified ID token claims, provider.getUser(),
+   * or a provider-managed session
+   */
+  private async resolveUser(
+    provider: OAuthProvider,
+    result: AuthResult,
+    claims: IdTokenClaims | null,
+    context?: CallbackContext
+  ): Promise<User> {
+    if (result.user) {
+      return result.user;
+    }
+    if (claims) {
+      return userFromClaims(claims);
+    }
+    if (provider.getUser) {
+      return provider.getUser(result.access_token);
+    }
+    if (provider.setSession && provider.getSession) {
+      await provider.setSession({
+        access_token: result.access_token,
+        refresh_token: result.refresh_token,
+        expires_in: result.expires_in,
+      }, context);
+      const providerSession = await provider.getSession();
+      if (providerSession) {
+        return providerSession.user;
+      }
+    }
+    throw new OAuthError('invalid_response', 'Provider must return user in AuthResult or implement getUser()');
+  }
+
+  /**
+   * Persist a session under its provider's key and make it the active one
+   */
+  private async writeSession(session: Session): Promise<void> {
+    const providerName = session.provider || DEFAULT_PROVIDER_NAME;
+    await this.sessionStore.setItem(`${SESSION_KEY_PREFIX}${providerName}`, JSON.stringify(session));
+    await this.sessionStore.setItem(ACTIVE_PROVIDER_KEY, providerName);
+  }
+
+  /**
+   * Read the active session (falls back to provider-managed sessions)
+   */
+  private async readSession(): Promise<Session | null> {
+    const providerName = await this.sessionStore.getItem(ACTIVE_PROVIDER_KEY);
+    if (providerName) {
+      const key = `${SESSION_KEY_PREFIX}${providerName}`;
+      const raw = await this.sessionStore.getItem(key);
+      if (raw) {
+        try {
+          return JSON.parse(raw) as Session;
+        } catch {
+          await this.sessionStore.removeItem(key);
+        }
+      }
+    }
+
+    const provider = this.findProvider(providerName);
+    return provider?.getSession ? provider.getSession() : null;
+  }
+
+  /**
+   * Provider that owns a session
+   */
+  private providerFor(session: Session): OAuthProvider | null {
+    return this.findProvider(session.provider || null);
+  }
+
+  /**
+   * Like getProvider, but null instead of throwing (provider removed from config, etc.)
+   */
+  private findProvider(name: string | null): OAuthProvider | null {
+    try {
+      return this.getProvider(name || undefined);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a session is within the refresh leeway of its expiry
+   */
+  private shouldRefresh(session: Session): boolean {
+    return !!(
+      this.providerFor(session)?.refreshSession &&
+      session.refresh_token &&
+      session.expires_at &&
+      session.expires_at - this.refreshLeeway <= Date.now()
+    );
+  }
+
+  /**
+   * Schedule the next background refresh for a session
+   */
+  private scheduleRefresh(session: Session | null): void {
+    this.clearRefreshTimer();
+
+    if (!this.autoRefreshActive || !session?.refresh_token || !session.expires_at) {
+      return;
+    }
+    if (!this.providerFor(session)?.refreshSession) {
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(session.expires_at - this.refreshLeeway - Date.now(), 0),
+      MAX_TIMER_DELAY
+    );
+
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshSession().catch(() => {
+        // Network hiccup - try again shortly
+        this.refreshTimer = setTimeout(() => this.getSession().catch(() => {}), REFRESH_RETRY_DELAY);
+      });
+    }, delay);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  /**
+   * App resumed (WebView/tab visible again) - timers may not have fired in the background
+   */
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'visible') {
+      this.getSession().catch(() => {
+        // Session errors surface through getSession callers
+      });
+    }
+  };
+
+  /**
+   * Native sign-in ended without a callback - let the UI recover
+   * The flow stays valid until it expires, so a late deeplink still signs in.
+   */
+  private handleSignInCancelled = (_state: string, reason: PendingFlowCancelReason): void => {
+    console.warn(`OAuth Kit: native sign in ${reason === 'timeout' ? 'timed out' : 'was dismissed'}`);
+    this.readSession()
+      .then((session) => this.emit('SIGN_IN_CANCELLED', session, false))
+      .catch((error) => {
+        console.error('Failed to report cancelled sign in:', error);
+      });
+  };
+
+  /**
+   * Run the authorization in a popup and complete it when the popup reports back
+   */
+  private async signInWithPopup(providerName: string, popup: Window): Promise<AuthResult> {
+    let state: string;
+    try {
+      const authorization = await this.createAuthorization(
+        providerName,
+        `${this.appUrl}${this.WEB_CALLBACK_PATH}`,
+        'popup'
+      );
+      state = authorization.state;
+      popup.location.href = authorization.url;
+    } catch (error) {
+      popup.close();
+      throw error;
+    }
+
+    let params: Record<string, string>;
+    try {
+      params = await waitForPopupCallback(popup, new URL(this.appUrl).origin);
+    } catch (error) {
+      // Closed by the user - the flow can't complete anymore
+      this.stateStore.discard(state);
+      throw error;
+    }
+
+    const { result } = await this.completeCallback(params);
+    return result;
+  }
+
+  /**
+   * Result of a native flow, as returned by the browser session's deeplink
+   */
+  private async receiveNativeResult(params: Record<string, string>, flow: FlowState): Promise<AuthResult> {
+    if (flow.handoffVerifier) {
+      // Handoff mode: never accept tokens from the URL
+      const code = params[HANDOFF_CODE_PARAM];
+      if (!code || !this.handoffStore) {
+        throw new OAuthError('invalid_response', 'Native sign in returned without a handoff code');
+      }
+      return this.handoffStore.redeem(code, { state: flow.state, verifier: flow.handoffVerifier });
+    }
+
+    return {
+      access_token: params.access_token,
+      refresh_token: params.refresh_token,
+      expires_in: params.expires_in ? parseInt(params.expires_in, 10) : undefined,
+      id_token: params.id_token,
+    };
+  }
+
+  /**
+   * Reduce a return-to destination to a path on the app's origin
+   * Anything pointing elsewhere (absolute URLs, `//host`, `javascript:`) is dropped.
+   */
+  private resolveReturnTo(returnTo: string | undefined): string | undefined {
+    if (!returnTo) {
+      return undefined;
+    }
+
     try {
-      if (typeof sessionStorage !== 'undefined') {
-        sessionStorage.setItem(`oauth_state_${state}`, JSON.stringify({
-          state,
-          timestamp: Date.now(),
-        }));
+      const url = new URL(returnTo, this.appUrl);
+      if (url.origin !== new URL(this.appUrl).origin) {
+        return undefined;
       }
+      return `${url.pathname}${url.search}${url.hash}`;
     } catch {
-      // sessionStorage unavailable (private browsing, etc.)
+      return undefined;
+    }
+  }
+
+  /**
+   * Start a redirect flow and open the provider URL
+   */
+  private async beginAuthorization(
+    providerName: string,
+    redirectUri: string,
+    flowData: FlowData = {}
+  ): Promise<void> {
+    const { url } = await this.createAuthorization(providerName, redirectUri, 'redirect', flowData);
+
+    // Plain redirect: web, the browser session itself, or the in-WebView fallback
+    if (typeof window !== 'undefined') {
+      window.location.href = url;
+    }
+  }
+
+  /**
+   * Native sign-in: the WebView keeps its own flow and verifies it when the deeplink
+   * returns, the browser session (/native-callback) starts the actual authorization
+   */
+  private async signInNative(
+    providerName: string,
+    strategy: NativeAuthStrategy,
+    returnTo: string | undefined
+  ): Promise<void> {
+    const handoffVerifier = this.handoffStore ? generateCodeVerifier() : undefined;
+    const flow = this.stateStore.create({ mode: 'native', provider: providerName, returnTo, handoffVerifier });
+    const startParams = new URLSearchParams({
+      [NATIVE_START_PARAM]: providerName,
+      [NATIVE_FLOW_PARAM]: flow.state,
+    });
+    if (returnTo) {
+      startParams.set(NATIVE_RETURN_TO_PARAM, returnTo);
+    }
+    if (handoffVerifier) {
+      // Only the WebView can redeem the code: it alone knows the verifier
+      startParams.set(NATIVE_HANDOFF_PARAM, await createCodeChallenge(handoffVerifier));
+    }
+    if (strategy === 'external-browser') {
+      startParams.set(NATIVE_RETURN_VIA_PARAM, 'universal-link');
+    }
+
+    // No deeplink comes back when the user dismisses the browser session
+    this.pendingFlow.track(flow.state);
+
+    const bootstrapUrl = `${this.appUrl}${this.NATIVE_CALLBACK_PATH}?${startParams.toString()}`;
+    if (strategy === 'external-browser') {
+      if (!this.nativeBridge.openExternal) {
+        throw new Error(`Native bridge '${this.nativeBridge.name}' can't open the system browser`);
+      }
+      await this.nativeBridge.openExternal(bootstrapUrl);
+    } else {
+      await this.nativeBridge.openAuthSession(bootstrapUrl);
     }
   }
+
+  /**
+   * Despia, or the fake bridge when `?oauthkit_force_native` debug mode is on
+   */
+  private createDefaultBridge(): NativeBridge {
+    if (isNativeForced()) {
+      console.info('OAuth Kit: native debug mode on (oauthkit_force_native), simulating the native flow in this tab');
+      return new FakeNativeBridge({ navigate: true, returnUrl: this.appUrl });
+    }
+    return new DespiaBridge();
+  }
+
+  /**
+   * Create a flow (state + PKCE) and the provider's authorization URL for it
+   */
+  private async createAuthorization(
+    providerName: string,
+    redirectUri: string,
+    mode: FlowMode,
+    flowData: FlowData = {}
+  ): Promise<{ url: string; state: string }> {
+    const codeVerifier = generateCodeVerifier();
+    const codeChallenge = await createCodeChallenge(codeVerifier);
+    const flow = this.stateStore.create({
+      ...flowData,
+      mode,
+      provider: providerName,
+      codeVerifier,
+      nonce: generateNonce(),
+      redirectUri,
+    });
+
+    // Provider generates URL (their implementation, our structure)
+    const provider = this.getProvider(providerName);
+    const oauthUrl = await provider.getOAuthUrl(providerName, redirectUri, flow.state, {
+      codeChallenge,
+      codeChallengeMethod: 'S256',
+      nonce: flow.nonce,
+    });
+
+    return { url: oauthUrl, state: flow.state };
+  }
 }
@@ -0,0 +1,231 @@
+/**
+ * OAuth Kit - OpenID Connect
+ * Verifies ID tokens (JWKS signature + iss/aud/exp/iat/azp/nonce claims)
+ * and builds the user from their claims
+ */
+
+import type { OidcConfig, User } from './types';
+import { OAuthError } from './errors';
+import { base64UrlEncode } from './pkce';
+
+/**
+ * Standard ID token claims (plus whatever else the provider includes)
+ */
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  azp?: string;
+  auth_time?: number;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  picture?: string;
+  [claim: string]: any;
+}
+
+export interface VerifyIdTokenOptions {
+  /** Nonce sent with the authorization request (checked when given) */
+  nonce?: string;
+}
+
+interface JwtHeader {
+  alg: string;
+  kid?: string;
+  typ?: string;
+}
+
+// JWKS responses are cached per URI; unknown `kid`s trigger one refetch (key rotation)
+const JWKS_CACHE_TTL = 10 * 60 * 1000;
+const jwksCache = new Map<string, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+// Default accepted signing algorithms (asymmetric only - no client secret in the browser)
+const DEFAULT_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+/**
+ * Generate a nonce for an authorization request
+ */
+export function generateNonce(): string {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Read a JWT's claims without verifying it
+ * Only for display/debugging - use verifyIdToken before trusting anything in it.
+ */
+export function decodeJwt<T = Record<string, any>>(token: string): T {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    throw new OAuthError('invalid_response', 'Malformed JWT');
+  }
+  return decodeJson<T>(parts[1]);
+}
+
+/**
+ * Verify an ID token and return its claims
+ *
+ * @throws OAuthError (invalid_response) when the signature or a claim doesn't check out
+ */
+export async function verifyIdToken(
+  idToken: string,
+  config: OidcConfig,
+  options: VerifyIdTokenOptions = {}
+): Promise<IdTokenClaims> {
+  const parts = idToken.split('.');
+  if (parts.length !== 3) {
+    throw invalidIdToken('malformed token');
+  }
+
+  const header = decodeJson<JwtHeader>(parts[0]);
+  const claims = decodeJson<IdTokenClaims>(parts[1]);
+
+  const algorithms = config.algorithms || DEFAULT_ALGORITHMS;
+  if (!algorithms.includes(header.alg)) {
+    throw invalidIdToken(`unsupported algorithm ${header.alg}`);
+  }
+
+  // Signature
+  const jwk = await findKey(config.jwksUri, header);
+  const key = await crypto.subtle.importKey('jwk', jwk, importParams(header.alg), false, ['verify']);
+  const valid = await crypto.subtle.verify(
+    verifyParams(header.alg),
+    key,
+    base64UrlDecode(parts[2]),
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+  );
+  if (!valid) {
+    throw invalidIdToken('signature verification failed');
+  }
+
+  // Claims (OIDC Core 3.1.3.7)
+  const now = Math.floor(Date.now() / 1000);
+  const skew = config.clockSkew ?? 60;
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+  if (claims.iss !== config.issuer) {
+    throw invalidIdToken(`issuer ${claims.iss} does not match ${config.issuer}`);
+  }
+  if (!claims.sub) {
+    throw invalidIdToken('missing sub');
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw invalidIdToken('audience does not include this client');
+  }
+  if ((audiences.length > 1 || claims.azp) && claims.azp !== config.clientId) {
+    throw invalidIdToken('authorized party (azp) is not this client');
+  }
+  if (typeof claims.exp !== 'number' || claims.exp + skew < now) {
+    throw invalidIdToken('token expired');
+  }
+  if (typeof claims.iat !== 'number' || claims.iat - skew > now) {
+    throw invalidIdToken('issued in the future');
+  }
+  if (options.nonce !== undefined && claims.nonce !== options.nonce) {
+    throw invalidIdToken('nonce mismatch');
+  }
+
+  return claims;
+}
+
+/**
+ * Build the kit's User from verified ID token claims
+ */
+export function userFromClaims(claims: IdTokenClaims): User {
+  // Token bookkeeping isn't part of the user
+  const { sub, email, name, picture, iss, aud, exp, iat, nonce, azp, auth_time, at_hash, c_hash, jti, ...rest } =
+    claims;
+  return {
+    ...rest,
+    id: sub,
+    email,
+    name,
+    avatar_url: picture,
+  };
+}
+
+/**
+ * Signing key for a token, refetching the JWKS once if the key isn't known yet
+ */
+async function findKey(jwksUri: string, header: JwtHeader): Promise<JsonWebKey> {
+  const match = (keys: JsonWebKey[]) =>
+    keys.find((key) => {
+      const { kid, use } = key as JsonWebKey & { kid?: string; use?: string };
+      return (!header.kid || kid === header.kid) && (!use || use === 'sig') && (!key.alg || key.alg === header.alg);
+    });
+
+  const cached = jwksCache.get(jwksUri);
+  if (cached && Date.now() - cached.fetchedAt < JWKS_CACHE_TTL) {
+    const key = match(cached.keys);
+    if (key) {
+      return key;
+    }
+  }
+
+  const keys = await fetchJwks(jwksUri);
+  const key = match(keys);
+  if (!key) {
+    throw invalidIdToken(`no signing key ${header.kid || ''} in JWKS`);
+  }
+  return key;
+}
+
+async function fetchJwks(jwksUri: string): Promise<JsonWebKey[]> {
+  const response = await fetch(jwksUri);
+  if (!response.ok) {
+    throw await OAuthError.fromResponse(response, 'invalid_response', 'Failed to fetch JWKS');
+  }
+
+  const jwks = await response.json();
+  const keys: JsonWebKey[] = Array.isArray(jwks.keys) ? jwks.keys : [];
+  jwksCache.set(jwksUri, { keys, fetchedAt: Date.now() });
+  return keys;
+}
+
+function importParams(alg: string): RsaHashedImportParams | EcKeyImportParams {
+  const hash = `SHA-${alg.substring(2)}`;
+  if (alg.startsWith('RS')) {
+    return { name: 'RSASSA-PKCS1-v1_5', hash };
+  }
+  if (alg.startsWith('PS')) {
+    return { name: 'RSA-PSS', hash };
+  }
+  return { name: 'ECDSA', namedCurve: alg === 'ES512' ? 'P-521' : `P-${alg.substring(2)}` };
+}
+
+function verifyParams(alg: string): AlgorithmIdentifier | RsaPssParams | EcdsaParams {
+  const bits = parseInt(alg.substring(2), 10);
+  if (alg.startsWith('RS')) {
+    return { name: 'RSASSA-PKCS1-v1_5' };
+  }
+  if (alg.startsWith('PS')) {
+    return { name: 'RSA-PSS', saltLength: bits / 8 };
+  }
+  return { name: 'ECDSA', hash: `SHA-${bits}` };
+}
+
+function decodeJson<T>(segment: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(segment))) as T;
+  } catch {
+    throw invalidIdToken('malformed token');
+  }
+}
+
+function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function invalidIdToken(reason: string): OAuthError {
+  return new OAuthError('invalid_response', `Invalid ID token: ${reason}`, { error: 'invalid_id_token' });
+}
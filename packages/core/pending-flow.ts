@@ -0,0 +1,130 @@
+/**
+ * OAuth Kit - Pending Flow Tracker
+ * Notices a native sign-in that will never call back: the browser session was
+ * dismissed (WebView regains visibility/focus without a callback) or timed out
+ */
+
+// How long to wait after the WebView comes back for the callback to arrive (ms)
+// A completing sign-in also brings the WebView back, right before the deeplink navigates it.
+const RESUME_GRACE_DELAY = 2000;
+
+export type PendingFlowCancelReason = 'dismissed' | 'timeout';
+
+export interface PendingFlowTrackerOptions {
+  /** Give up on a flow after this many ms */
+  timeout: number;
+
+  /** Called once when the tracked flow is given up on */
+  onCancel: (state: string, reason: PendingFlowCancelReason) => void;
+}
+
+/**
+ * Pending Flow Tracker
+ * Tracks one flow at a time - starting a new sign-in replaces the previous one
+ */
+export class PendingFlowTracker {
+  private timeout: number;
+  private onCancel: PendingFlowTrackerOptions['onCancel'];
+  private state: string | null = null;
+
+  // The WebView has to leave before coming back counts as a dismissal
+  private away = false;
+  private timeoutTimer: ReturnType<typeof setTimeout> | null = null;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: PendingFlowTrackerOptions) {
+    this.timeout = options.timeout;
+    this.onCancel = options.onCancel;
+  }
+
+  /**
+   * State of the flow being waited for
+   */
+  get pendingState(): string | null {
+    return this.state;
+  }
+
+  /**
+   * Start waiting for a flow's callback
+   */
+  track(state: string): void {
+    this.settle();
+    this.state = state;
+    this.away = false;
+    this.timeoutTimer = setTimeout(() => this.cancel('timeout'), this.timeout);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('blur', this.handleLeave);
+      window.addEventListener('focus', this.handleReturn);
+    }
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Stop waiting (callback arrived, or sign-in abandoned)
+   * @param state Only settle if this is the tracked flow
+   */
+  settle(state?: string): void {
+    if (state && state !== this.state) {
+      return;
+    }
+
+    this.state = null;
+    this.clearTimers();
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('blur', this.handleLeave);
+      window.removeEventListener('focus', this.handleReturn);
+    }
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  /**
+   * Give up on the tracked flow and report it
+   */
+  cancel(reason: PendingFlowCancelReason): void {
+    const state = this.state;
+    if (!state) {
+      return;
+    }
+    this.settle();
+    this.onCancel(state, reason);
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.handleLeave();
+    } else {
+      this.handleReturn();
+    }
+  };
+
+  private handleLeave = (): void => {
+    this.away = true;
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  };
+
+  private handleReturn = (): void => {
+    if (!this.away || this.resumeTimer) {
+      return;
+    }
+    this.resumeTimer = setTimeout(() => this.cancel('dismissed'), RESUME_GRACE_DELAY);
+  };
+
+  private clearTimers(): void {
+    if (this.timeoutTimer) {
+      clearTimeout(this.timeoutTimer);
+      this.timeoutTimer = null;
+    }
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
+    }
+  }
+}
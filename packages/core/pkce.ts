@@ -0,0 +1,34 @@
+/**
+ * OAuth Kit - PKCE Helpers
+ * Proof Key for Code Exchange (RFC 7636), S256 method only
+ */
+
+/**
+ * Generate a high-entropy code verifier
+ * 32 random bytes, base64url encoded = 43 unreserved characters
+ */
+export function generateCodeVerifier(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return base64UrlEncode(bytes);
+}
+
+/**
+ * Derive the S256 code challenge for a verifier
+ * BASE64URL(SHA256(ASCII(code_verifier)))
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+/**
+ * Base64url encode bytes without padding
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
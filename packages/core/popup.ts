@@ -0,0 +1,105 @@
+/**
+ * OAuth Kit - Popup Handler
+ * Runs the web sign-in in a popup window; the callback page in the popup posts
+ * the callback params back to the opener, which verifies and exchanges them
+ */
+
+import type { PopupOptions } from './types';
+import { OAuthError } from './errors';
+
+/**
+ * Window name given to sign-in popups (how the callback page recognizes one)
+ */
+export const POPUP_WINDOW_NAME = 'oauthkit_popup';
+
+/**
+ * postMessage type of the callback params sent from the popup
+ */
+export const POPUP_MESSAGE_TYPE = 'oauthkit:callback';
+
+export interface PopupCallbackMessage {
+  type: typeof POPUP_MESSAGE_TYPE;
+  params: Record<string, string>;
+}
+
+// How often to check whether the user closed the popup (ms)
+const POPUP_POLL_INTERVAL = 500;
+
+/**
+ * Open an empty, centered popup
+ * Must run synchronously in the click handler or the browser blocks it.
+ *
+ * @returns The popup, or null when it was blocked
+ */
+export function openPopup(options: PopupOptions = {}): Window | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const width = options.width ?? 500;
+  const height = options.height ?? 650;
+  const left = Math.max(0, window.screenX + (window.outerWidth - width) / 2);
+  const top = Math.max(0, window.screenY + (window.outerHeight - height) / 2);
+  const features = `popup=yes,width=${width},height=${height},left=${Math.round(left)},top=${Math.round(top)}`;
+
+  const popup = window.open('', POPUP_WINDOW_NAME, features);
+  return popup && !popup.closed ? popup : null;
+}
+
+/**
+ * Wait for the callback params posted by the popup
+ * Only accepts messages from the popup itself, sent from the app's own origin.
+ *
+ * @throws OAuthError (cancelled) when the popup is closed before the callback arrives
+ */
+export function waitForPopupCallback(popup: Window, origin: string): Promise<Record<string, string>> {
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener('message', handleMessage);
+      clearInterval(closedPoll);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.origin !== origin || event.source !== popup) {
+        return;
+      }
+      const message = event.data as PopupCallbackMessage | undefined;
+      if (message?.type !== POPUP_MESSAGE_TYPE || !message.params) {
+        return;
+      }
+
+      cleanup();
+      popup.close();
+      resolve(message.params);
+    };
+
+    const closedPoll = setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new OAuthError('cancelled', 'Sign in was cancelled: the popup was closed'));
+      }
+    }, POPUP_POLL_INTERVAL);
+
+    window.addEventListener('message', handleMessage);
+  });
+}
+
+/**
+ * Whether this page is the callback of a sign-in popup
+ */
+export function isPopupCallback(): boolean {
+  if (typeof window === 'undefined' || window.name !== POPUP_WINDOW_NAME) {
+    return false;
+  }
+  return !!window.opener && !window.opener.closed;
+}
+
+/**
+ * Post callback params to the window that opened this popup
+ *
+ * @param targetOrigin The app's origin - nothing is sent to any other origin
+ */
+export function postToOpener(params: Record<string, string>, targetOrigin: string): void {
+  const message: PopupCallbackMessage = { type: POPUP_MESSAGE_TYPE, params };
+  window.opener.postMessage(message, targetOrigin);
+}
@@ -0,0 +1,179 @@
+/**
+ * OAuth Kit - Session Stores
+ * Built-in SessionStore implementations (memory, localStorage, sessionStorage, cookie)
+ */
+
+import type { SessionStore } from './types';
+
+export interface SessionStoreOptions {
+  /** Key namespace, keeps several apps on one origin apart (default: 'oauth_kit') */
+  namespace?: string;
+}
+
+const DEFAULT_NAMESPACE = 'oauth_kit';
+
+/**
+ * In-memory store - session is lost on reload (tests, SSR, privacy-sensitive apps)
+ */
+export class MemorySessionStore implements SessionStore {
+  private items = new Map<string, string>();
+  private namespace: string;
+
+  constructor(options: SessionStoreOptions = {}) {
+    this.namespace = options.namespace || DEFAULT_NAMESPACE;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(`${this.namespace}.${key}`) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(`${this.namespace}.${key}`, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(`${this.namespace}.${key}`);
+  }
+}
+
+/**
+ * Web Storage backed store (shared by localStorage/sessionStorage stores)
+ * Falls back to memory when the storage is unavailable (SSR, private browsing)
+ */
+class WebStorageSessionStore implements SessionStore {
+  private getStorage: () => Storage;
+  private fallback: MemorySessionStore;
+  private namespace: string;
+
+  constructor(getStorage: () => Storage, options: SessionStoreOptions = {}) {
+    this.getStorage = getStorage;
+    this.namespace = options.namespace || DEFAULT_NAMESPACE;
+    this.fallback = new MemorySessionStore(options);
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const storage = this.storage();
+    return storage ? storage.getItem(`${this.namespace}.${key}`) : this.fallback.getItem(key);
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const storage = this.storage();
+    if (storage) {
+      storage.setItem(`${this.namespace}.${key}`, value);
+    } else {
+      await this.fallback.setItem(key, value);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const storage = this.storage();
+    if (storage) {
+      storage.removeItem(`${this.namespace}.${key}`);
+    } else {
+      await this.fallback.removeItem(key);
+    }
+  }
+
+  private storage(): Storage | null {
+    try {
+      return this.getStorage();
+    } catch {
+      // Storage disabled or not defined
+      return null;
+    }
+  }
+}
+
+/**
+ * localStorage store - survives reloads and app restarts (default)
+ */
+export class LocalStorageSessionStore extends WebStorageSessionStore {
+  constructor(options: SessionStoreOptions = {}) {
+    super(() => localStorage, options);
+  }
+}
+
+/**
+ * sessionStorage store - cleared when the tab/WebView is closed
+ */
+export class SessionStorageSessionStore extends WebStorageSessionStore {
+  constructor(options: SessionStoreOptions = {}) {
+    super(() => sessionStorage, options);
+  }
+}
+
+export interface CookieSessionStoreOptions extends SessionStoreOptions {
+  /** Cookie path (default: '/') */
+  path?: string;
+
+  /** Cookie domain (default: current host) */
+  domain?: string;
+
+  /** Cookie lifetime in seconds (default: 30 days) */
+  maxAge?: number;
+
+  /** SameSite attribute (default: 'Lax') */
+  sameSite?: 'Strict' | 'Lax' | 'None';
+
+  /** Secure attribute (default: true on https pages) */
+  secure?: boolean;
+}
+
+/**
+ * Cookie store - readable by JavaScript, so not httpOnly
+ * Browsers cap cookies at ~4KB; large tokens may not fit
+ */
+export class CookieSessionStore implements SessionStore {
+  private namespace: string;
+  private options: CookieSessionStoreOptions;
+
+  constructor(options: CookieSessionStoreOptions = {}) {
+    this.namespace = options.namespace || DEFAULT_NAMESPACE;
+    this.options = options;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    if (typeof document === 'undefined') {
+      return null;
+    }
+
+    const name = `${this.namespace}.${key}=`;
+    for (const part of document.cookie.split(';')) {
+      const cookie = part.trim();
+      if (cookie.startsWith(name)) {
+        return decodeURIComponent(cookie.substring(name.length));
+      }
+    }
+    return null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.write(key, encodeURIComponent(value), this.options.maxAge ?? 30 * 24 * 60 * 60);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.write(key, '', 0);
+  }
+
+  private write(key: string, value: string, maxAge: number): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    const secure = this.options.secure ?? (typeof location !== 'undefined' && location.protocol === 'https:');
+    const attributes = [
+      `${this.namespace}.${key}=${value}`,
+      `Path=${this.options.path || '/'}`,
+      `Max-Age=${maxAge}`,
+      `SameSite=${this.options.sameSite || 'Lax'}`,
+    ];
+    if (this.options.domain) {
+      attributes.push(`Domain=${this.options.domain}`);
+    }
+    if (secure) {
+      attributes.push('Secure');
+    }
+
+    document.cookie = attributes.join('; ');
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * OAuth Kit - State Store
+ * Persists per-flow data (state, PKCE verifier) and verifies the state returned on callback
+ */
+
+import { OAuthStateError } from './errors';
+
+const KEY_PREFIX = 'oauth_state_';
+
+/**
+ * How the flow returns to the app
+ * - redirect: provider redirects to our callback page (web, or browser session on native)
+ * - native: WebView is waiting for the deeplink from the browser session
+ * - popup: callback page in a popup posts the params back to the window that opened it
+ */
+export type FlowMode = 'redirect' | 'native' | 'popup';
+
+/**
+ * Data stored for each OAuth flow
+ */
+export interface FlowState {
+  state: string;
+  mode: FlowMode;
+  createdAt: number;
+  expiresAt: number;
+
+  /** Provider name passed to signIn */
+  provider?: string;
+
+  /** PKCE code verifier */
+  codeVerifier?: string;
+
+  /** OpenID Connect nonce */
+  nonce?: string;
+
+  /** Redirect URI sent to the provider */
+  redirectUri?: string;
+
+  /** State of the WebView flow this browser-session flow reports back to (native only) */
+  parentState?: string;
+
+  /** App path to continue at after sign in */
+  returnTo?: string;
+
+  /** Secret that redeems the handoff code (WebView flow, handoff mode) */
+  handoffVerifier?: string;
+
+  /** S256 challenge of the WebView's handoff secret (browser-session flow, handoff mode) */
+  handoffChallenge?: string;
+
+  /** 'universal-link' when the browser session returns through appUrl instead of a deeplink */
+  returnVia?: 'universal-link';
+}
+
+/**
+ * Minimal Storage interface (sessionStorage-compatible)
+ */
+export interface StateStorage {
+  readonly length: number;
+  key(index: number): string | null;
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface OAuthStateStoreOptions {
+  /** Flow lifetime in seconds (default: 600) */
+  ttl?: number;
+
+  /** Storage backend (default: sessionStorage, in-memory when unavailable) */
+  storage?: StateStorage;
+}
+
+/**
+ * Stored record - consumed flows are kept as tombstones until they expire
+ * so replays can be told apart from unknown states
+ */
+interface StoredRecord {
+  flow: FlowState;
+  consumedAt?: number;
+}
+
+/**
+ * OAuth State Store
+ * Issues single-use states and validates them on callback
+ */
+export class OAuthStateStore {
+  private storage: StateStorage;
+  private ttl: number;
+
+  constructor(options: OAuthStateStoreOptions = {}) {
+    this.storage = options.storage || getDefaultStorage();
+    this.ttl = (options.ttl ?? 600) * 1000;
+  }
+
+  /**
+   * Create and persist a new flow
+   */
+  create(data: Omit<FlowState, 'state' | 'createdAt' | 'expiresAt'>): FlowState {
+    this.cleanup();
+
+    const now = Date.now();
+    const flow: FlowState = {
+      ...data,
+      state: generateState(),
+      createdAt: now,
+      expiresAt: now + this.ttl,
+    };
+    this.write(flow.state, { flow });
+    return flow;
+  }
+
+  /**
+   * Verify a returned state and mark it used
+   * @throws OAuthStateError when state is missing, unknown, expired or already used
+   */
+  consume(state: string | undefined): FlowState {
+    if (!state) {
+      throw new OAuthStateError('missing');
+    }
+
+    const record = this.read(state);
+    if (!record) {
+      throw new OAuthStateError('unknown');
+    }
+
+    if (record.consumedAt) {
+      throw new OAuthStateError('replayed');
+    }
+
+    if (Date.now() > record.flow.expiresAt) {
+      this.remove(state);
+      throw new OAuthStateError('expired');
+    }
+
+    this.write(state, { flow: record.flow, consumedAt: Date.now() });
+    return record.flow;
+  }
+
+  /**
+   * Read a flow without validating or consuming it (used or not)
+   */
+  peek(state: string): FlowState | null {
+    return this.read(state)?.flow || null;
+  }
+
+  /**
+   * Drop a flow without validating it (e.g. provider returned an error)
+   * Kept as a tombstone like consumed flows, so peek() still finds it.
+   */
+  discard(state: string | undefined): void {
+    const record = state ? this.read(state) : null;
+    if (state && record && !record.consumedAt) {
+      this.write(state, { flow: record.flow, consumedAt: Date.now() });
+    }
+  }
+
+  /**
+   * Remove expired flows and tombstones
+   */
+  cleanup(): void {
+    const now = Date.now();
+    const keys: string[] = [];
+    try {
+      for (let i = 0; i < this.storage.length; i++) {
+        const key = this.storage.key(i);
+        if (key && key.startsWith(KEY_PREFIX)) {
+          keys.push(key);
+        }
+      }
+    } catch {
+      return;
+    }
+
+    for (const key of keys) {
+      const record = this.read(key.substring(KEY_PREFIX.length));
+      if (!record || now > record.flow.expiresAt) {
+        this.safely(() => this.storage.removeItem(key));
+      }
+    }
+  }
+
+  private read(state: string): StoredRecord | null {
+    try {
+      const raw = this.storage.getItem(`${KEY_PREFIX}${state}`);
+      if (!raw) {
+        return null;
+      }
+      const record = JSON.parse(raw) as StoredRecord;
+      return record && record.flow ? record : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private write(state: string, record: StoredRecord): void {
+    this.safely(() => this.storage.setItem(`${KEY_PREFIX}${state}`, JSON.stringify(record)));
+  }
+
+  private remove(state: string): void {
+    this.safely(() => this.storage.removeItem(`${KEY_PREFIX}${state}`));
+  }
+
+  private safely(fn: () => void): void {
+    try {
+      fn();
+    } catch {
+      // Storage unavailable or full (private browsing, etc.)
+    }
+  }
+}
+
+/**
+ * Generate random state for CSRF protection
+ */
+function generateState(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+}
+
+/**
+ * sessionStorage when available, otherwise an in-memory fallback
+ */
+function getDefaultStorage(): StateStorage {
+  try {
+    if (typeof sessionStorage !== 'undefined') {
+      return sessionStorage;
+    }
+  } catch {
+    // Access can throw when storage is disabled
+  }
+  return createMemoryStorage();
+}
+
+function createMemoryStorage(): StateStorage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * OAuth Kit - Tab Sync
+ * Broadcasts auth changes to other tabs/windows of the same app and
+ * coordinates work (token refresh) that only one tab may do at a time
+ */
+
+import type { AuthChangeEvent } from './types';
+
+/**
+ * Message sent to other tabs - carries no tokens, receivers re-read the SessionStore
+ */
+export interface TabSyncMessage {
+  event: AuthChangeEvent;
+  tabId: string;
+  timestamp: number;
+}
+
+export type TabSyncHandler = (event: AuthChangeEvent) => void;
+
+// How long a storage-based lock is held at most (ms)
+const LOCK_TTL = 15 * 1000;
+
+// How often to retry a held storage-based lock (ms)
+const LOCK_RETRY_DELAY = 100;
+
+/**
+ * Tab Sync
+ * BroadcastChannel when available, `storage` events as fallback
+ */
+export class TabSync {
+  private channelName: string;
+  private tabId: string;
+  private channel: BroadcastChannel | null = null;
+  private handlers = new Set<TabSyncHandler>();
+  private listening = false;
+
+  constructor(channelName: string) {
+    this.channelName = channelName;
+    this.tabId = createTabId();
+  }
+
+  /**
+   * Tell other tabs about an auth change
+   */
+  post(event: AuthChangeEvent): void {
+    const message: TabSyncMessage = { event, tabId: this.tabId, timestamp: Date.now() };
+
+    const channel = this.getChannel();
+    if (channel) {
+      channel.postMessage(message);
+      return;
+    }
+
+    try {
+      // Fallback: writing fires `storage` in every other tab of this origin
+      localStorage.setItem(this.messageKey(), JSON.stringify(message));
+      localStorage.removeItem(this.messageKey());
+    } catch {
+      // No way to reach other tabs
+    }
+  }
+
+  /**
+   * Receive auth changes from other tabs
+   * @returns Unsubscribe function
+   */
+  subscribe(handler: TabSyncHandler): () => void {
+    this.handlers.add(handler);
+    this.listen();
+
+    return () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  /**
+   * Run fn while holding a cross-tab lock
+   * Uses the Web Locks API, or a localStorage lock with expiry as fallback.
+   */
+  async withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const lockName = `${this.channelName}.lock.${name}`;
+
+    if (typeof navigator !== 'undefined' && navigator.locks?.request) {
+      return navigator.locks.request(lockName, fn);
+    }
+
+    if (typeof localStorage === 'undefined') {
+      return fn();
+    }
+
+    await this.acquireStorageLock(lockName);
+    try {
+      return await fn();
+    } finally {
+      this.releaseStorageLock(lockName);
+    }
+  }
+
+  /**
+   * Stop listening to other tabs
+   */
+  close(): void {
+    if (this.channel) {
+      this.channel.close();
+      this.channel = null;
+    }
+    if (this.listening && typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.handleStorage);
+    }
+    this.listening = false;
+  }
+
+  private listen(): void {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    const channel = this.getChannel();
+    if (channel) {
+      channel.onmessage = (event: MessageEvent<TabSyncMessage>) => this.deliver(event.data);
+    } else if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.handleStorage);
+    }
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (event.key !== this.messageKey() || !event.newValue) {
+      return;
+    }
+    try {
+      this.deliver(JSON.parse(event.newValue) as TabSyncMessage);
+    } catch {
+      // Not our message
+    }
+  };
+
+  private deliver(message: TabSyncMessage | undefined): void {
+    if (!message || message.tabId === this.tabId) {
+      return;
+    }
+    for (const handler of Array.from(this.handlers)) {
+      handler(message.event);
+    }
+  }
+
+  private getChannel(): BroadcastChannel | null {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(this.channelName);
+    }
+    return this.channel;
+  }
+
+  private messageKey(): string {
+    return `${this.channelName}.message`;
+  }
+
+  private async acquireStorageLock(lockName: string): Promise<void> {
+    const deadline = Date.now() + LOCK_TTL;
+
+    while (Date.now() < deadline) {
+      const holder = readLock(lockName);
+      if (!holder || holder.expiresAt < Date.now()) {
+        localStorage.setItem(lockName, JSON.stringify({ tabId: this.tabId, expiresAt: Date.now() + LOCK_TTL }));
+
+        // Another tab may have written at the same time - last write wins
+        await delay(LOCK_RETRY_DELAY / 2);
+        if (readLock(lockName)?.tabId === this.tabId) {
+          return;
+        }
+      }
+      await delay(LOCK_RETRY_DELAY);
+    }
+    // Holder never released (tab crashed) - lock expired, proceed
+  }
+
+  private releaseStorageLock(lockName: string): void {
+    if (readLock(lockName)?.tabId === this.tabId) {
+      localStorage.removeItem(lockName);
+    }
+  }
+}
+
+function readLock(lockName: string): { tabId: string; expiresAt: number } | null {
+  try {
+    const raw = localStorage.getItem(lockName);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function createTabId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+}
@@ -27,6 +27,9 @@ export interface OAuthProvider {
    *                    - Server-side: OAuth Provider → Server Callback → Process → `redirectUri` (client app)
    *                    
    * @param state State parameter for CSRF protection
+   * @param options Per-flow authorization parameters generated by the kit (PKCE challenge, nonce).
+   *                Providers talking to an authorization server should forward them as
+   *                `code_challenge` / `code_challenge_method` (and `nonce` for OpenID Connect).
    * @returns OAuth authorization URL (can be sync or async)
    * 
    * @example Direct callback pattern:
@@ -43,7 +46,12 @@ export interface OAuthProvider {
    * return `https://provider.com/oauth/authorize?redirect_uri=${serverCallback}&...`;
    * ```
    */
-  getOAuthUrl(provider: string, redirectUri: string, state: string): string | Promise<string>;
+  getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): string | Promise<string>;
 
   /**
    * Handle OAuth callback
@@ -56,26 +64,300 @@ export interface OAuthProvider {
    *               The exact parameters depend on your provider implementation:
    *               - Direct callback: Receives tokens/code directly from OAuth provider
    *               - Server-side callback: Receives final result after server processing
+   * @param context Flow data persisted by the kit when the flow started
+   *                (PKCE `codeVerifier`, `nonce` and the `redirectUri` used for authorization)
    * @returns Authentication result with tokens and user info
    */
-  handleCallback(params: Record<string, string>): Promise<AuthResult>;
+  handleCallback(params: Record<string, string>, context?: CallbackContext): Promise<AuthResult>;
 
   /**
-   * Set authentication session
+   * Optional: Exchange a refresh token for new tokens
+   * When implemented, the manager refreshes sessions ahead of `expires_at` and on app resume.
+   * Return the new `refresh_token` if the server rotates it (the old one is kept otherwise).
+   * @param refreshToken Current refresh token
+   */
+  refreshSession?(refreshToken: string): Promise<AuthResult>;
+
+  /**
+   * Optional: Fetch the user for an access token
+   * Used when handleCallback/refreshSession don't return `user`.
+   * @param accessToken Access token of the new session
+   */
+  getUser?(accessToken: string): Promise<User>;
+
+  /**
+   * Optional: OpenID Connect settings for verifying the `id_token` this provider returns
+   * When implemented, the manager verifies the ID token (signature, iss/aud/exp/iat/azp/nonce)
+   * and builds the user from its claims - no getUser() call needed.
+   */
+  getOidcConfig?(): OidcConfig | Promise<OidcConfig>;
+
+  /**
+   * Optional: Set authentication session
+   * The manager persists sessions through its SessionStore. Implement this only
+   * to hand tokens to an SDK that keeps its own session (e.g. Supabase).
    * @param tokens Token set from OAuth flow
+   * @param context Flow data when the tokens come from a sign in (the WebView's
+   *                `handoffVerifier` after a native sign in in handoff mode)
    */
-  setSession(tokens: TokenSet): Promise<void>;
+  setSession?(tokens: TokenSet, context?: CallbackContext): Promise<void>;
 
   /**
-   * Get current session
+   * Optional: Get current session
+   * Only consulted when the SessionStore holds no session (providers that
+   * manage storage themselves).
    * @returns Current session or null if not authenticated
    */
-  getSession(): Promise<Session | null>;
+  getSession?(): Promise<Session | null>;
+
+  /**
+   * Optional: Revoke a token at the provider (RFC 7009)
+   * Called by signOut, best-effort: failures and timeouts don't keep the user signed in.
+   * @param token Access or refresh token
+   * @param tokenTypeHint Which kind of token it is
+   */
+  revokeToken?(token: string, tokenTypeHint: 'access_token' | 'refresh_token'): Promise<void>;
+
+  /**
+   * Optional: Sign out
+   * Called after the manager cleared its SessionStore.
+   */
+  signOut?(): Promise<void>;
+
+  /**
+   * Optional: Provider logout URL (OpenID Connect RP-Initiated Logout)
+   * Used by `signOut({ global: true })` to end the user's session at the provider.
+   * @returns null when the provider has no end-session endpoint
+   */
+  getEndSessionUrl?(options: EndSessionOptions): string | null | Promise<string | null>;
 
   /**
-   * Sign out
+   * Optional: Push auth changes that happen outside the kit into the manager
+   * (e.g. bridge Supabase's own `onAuthStateChange`). The manager subscribes while
+   * it has listeners and persists/re-emits what the provider reports.
+   * @param listener Called with the event and the resulting session
+   * @returns Unsubscribe function
    */
-  signOut(): Promise<void>;
+  onAuthStateChange?(listener: AuthStateListener): () => void;
+}
+
+/**
+ * Auth state change events
+ * - INITIAL_SESSION: delivered once to each new subscriber with the current session
+ * - SIGNED_IN: callback completed
+ * - SIGNED_OUT: user signed out
+ * - TOKEN_REFRESHED: session refreshed with new tokens
+ * - SESSION_EXPIRED: session expired and could not be refreshed
+ * - USER_UPDATED: user profile changed
+ */
+export type AuthChangeEvent =
+  | 'INITIAL_SESSION'
+  | 'SIGNED_IN'
+  | 'SIGNED_OUT'
+  | 'TOKEN_REFRESHED'
+  | 'SESSION_EXPIRED'
+  | 'USER_UPDATED'
+  | 'SIGN_IN_CANCELLED';
+
+/**
+ * Auth state listener
+ */
+export type AuthStateListener = (event: AuthChangeEvent, session: Session | null) => void;
+
+/**
+ * Session Store Interface
+ * Persists the session on behalf of the manager.
+ * Built-in: MemorySessionStore, LocalStorageSessionStore, SessionStorageSessionStore, CookieSessionStore
+ */
+export interface SessionStore {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * How a native sign-in runs
+ * - auth-session: secure browser session, closed by a custom-scheme deeplink (default)
+ * - external-browser: system browser, returns through a universal link / App Link to appUrl
+ * - in-webview: plain redirect inside the WebView (last resort, some providers block it)
+ */
+export type NativeAuthStrategy = 'auth-session' | 'external-browser' | 'in-webview';
+
+/**
+ * Native wrapper integration (Despia by default)
+ * How the kit detects the wrapper, opens the secure browser session and returns from it.
+ */
+export interface NativeBridge {
+  /** Bridge name, for logs */
+  readonly name: string;
+
+  /** Whether the app is running inside this wrapper's WebView */
+  detect(): boolean;
+
+  /** Open a URL in the wrapper's secure browser session (ASWebAuthenticationSession/Custom Tab) */
+  openAuthSession(url: string): void | Promise<void>;
+
+  /** URL that closes the browser session and opens `path` with `params` in the WebView */
+  buildReturnDeeplink(path: string, params: Record<string, string>, scheme: string): string;
+
+  /** Optional: Pick a strategy for this device/app version (default: 'auth-session') */
+  selectStrategy?(): NativeAuthStrategy;
+
+  /** Optional: Open a URL in the system browser (required for 'external-browser') */
+  openExternal?(url: string): void | Promise<void>;
+}
+
+/**
+ * What a handoff code is bound to when the browser session creates it
+ */
+export interface HandoffBinding {
+  /** State of the WebView flow the result belongs to */
+  state: string;
+
+  /** S256 challenge of a secret only the WebView holds */
+  challenge: string;
+}
+
+/**
+ * What the WebView proves when it redeems a handoff code
+ */
+export interface HandoffRedemption {
+  /** State of the WebView flow (must match the binding) */
+  state: string;
+
+  /** Secret whose S256 challenge was bound to the code */
+  verifier: string;
+}
+
+/**
+ * Server-backed, short-lived store that moves a native sign-in result from the
+ * browser session to the WebView. The two don't share storage, so this has to
+ * live on your backend; codes must be single-use and expire within seconds.
+ */
+export interface HandoffStore {
+  /** Store a result and return a one-time handoff code for it */
+  create(result: AuthResult, binding: HandoffBinding): Promise<string>;
+
+  /** Exchange a handoff code for the stored result (once) */
+  redeem(code: string, redemption: HandoffRedemption): Promise<AuthResult>;
+}
+
+/**
+ * Authorization parameters generated by the kit for each flow
+ */
+export interface OAuthUrlOptions {
+  /** PKCE code challenge (RFC 7636) */
+  codeChallenge?: string;
+
+  /** PKCE code challenge method */
+  codeChallengeMethod?: 'S256';
+
+  /** OpenID Connect nonce (checked against the ID token's `nonce` claim) */
+  nonce?: string;
+}
+
+/**
+ * Flow data handed back to the provider on callback
+ */
+export interface CallbackContext {
+  /** PKCE code verifier matching the challenge sent to getOAuthUrl */
+  codeVerifier?: string;
+
+  /** Redirect URI used when the flow started (must be repeated on code exchange) */
+  redirectUri?: string;
+
+  /** OpenID Connect nonce sent to getOAuthUrl */
+  nonce?: string;
+
+  /** S256 challenge of the WebView's handoff secret (browser session of a native sign in, handoff mode) */
+  handoffChallenge?: string;
+
+  /** The WebView's handoff secret (WebView of a native sign in, handoff mode) */
+  handoffVerifier?: string;
+}
+
+/**
+ * What the manager needs to verify a provider's ID tokens
+ */
+export interface OidcConfig {
+  /** Expected `iss` claim (e.g. 'https://accounts.google.com') */
+  issuer: string;
+
+  /** This app's client id - must be in `aud` */
+  clientId: string;
+
+  /** JWKS endpoint with the provider's signing keys */
+  jwksUri: string;
+
+  /** Optional: Accepted signing algorithms (default: RS/PS/ES 256-512) */
+  algorithms?: string[];
+
+  /** Optional: Allowed clock skew in seconds (default: 60) */
+  clockSkew?: number;
+}
+
+/**
+ * How a web sign-in is shown
+ * - redirect: full-page redirect to the provider (default)
+ * - popup: provider opens in a popup window, the page keeps its state
+ */
+export type SignInMode = 'redirect' | 'popup';
+
+/**
+ * Popup window size (centered over the current window)
+ */
+export interface PopupOptions {
+  /** Popup width in pixels (default: 500) */
+  width?: number;
+
+  /** Popup height in pixels (default: 650) */
+  height?: number;
+}
+
+/**
+ * Options for OAuthManager.signIn
+ */
+export interface SignInOptions {
+  /** Web sign-in mode (ignored inside the Despia app, default: 'redirect') */
+  mode?: SignInMode;
+
+  /** Popup window size for mode 'popup' */
+  popup?: PopupOptions;
+
+  /**
+   * Where to continue after sign in (e.g. the protected page that sent the user to login)
+   * Must be on the app's origin. Not used in popup mode - the page never leaves.
+   */
+  returnTo?: string;
+}
+
+/**
+ * Parameters of a provider logout request
+ */
+export interface EndSessionOptions {
+  /** ID token of the session being ended */
+  idTokenHint?: string;
+
+  /** Where the provider sends the user after logout (must be registered) */
+  postLogoutRedirectUri?: string;
+
+  /** Optional: Echoed back to postLogoutRedirectUri */
+  state?: string;
+}
+
+/**
+ * Options for signOut
+ */
+export interface SignOutOptions {
+  /**
+   * Also end the session at the provider (its end-session URL), so the next sign in
+   * asks for an account again. Inside the Despia app the logout runs in a browser
+   * session that returns through `/native-logout`.
+   */
+  global?: boolean;
+
+  /** Where the web app lands after the provider's logout page (default: '/', must be registered) */
+  returnTo?: string;
 }
 
 /**
@@ -88,8 +370,54 @@ export interface OAuthKitConfig {
   /** Despia deeplink scheme (e.g., 'myapp') */
   deeplinkScheme: string;
   
-  /** OAuth provider implementation */
-  provider: OAuthProvider;
+  /**
+   * OAuth provider implementation
+   * A single provider receives every `signIn(name)` and tells providers apart itself.
+   */
+  provider?: OAuthProvider;
+
+  /**
+   * Named OAuth providers (e.g. `{ google, apple, github }`)
+   * `signIn('github')` uses `providers.github`; callbacks are routed back to the provider
+   * that started the flow.
+   */
+  providers?: Record<string, OAuthProvider>;
+
+  /** Optional: Where sessions are persisted (default: LocalStorageSessionStore) */
+  sessionStore?: SessionStore;
+
+  /** Optional: Native wrapper integration (default: DespiaBridge) */
+  nativeBridge?: NativeBridge;
+
+  /**
+   * Optional: Hand native sign-in results to the WebView through one-time codes
+   * instead of putting tokens in the deeplink (recommended)
+   */
+  handoffStore?: HandoffStore;
+
+  /** Optional: How long a sign-in flow (state) stays valid, in seconds (default: 600) */
+  stateTtl?: number;
+
+  /**
+   * Optional: Give up on a native sign-in after this many seconds without a callback
+   * (default: stateTtl). Dismissing the browser session is detected sooner.
+   */
+  signInTimeout?: number;
+
+  /** Optional: Refresh sessions automatically when the provider supports it (default: true) */
+  autoRefresh?: boolean;
+
+  /** Optional: Refresh this many seconds before `expires_at` (default: 60) */
+  refreshLeeway?: number;
+
+  /** Optional: How long signOut waits for token revocation, in seconds (default: 5) */
+  revokeTimeout?: number;
+
+  /** Optional: Sync sign-in/out and refreshes across tabs and windows (default: true) */
+  crossTabSync?: boolean;
+
+  /** Optional: BroadcastChannel/storage key name, unique per app on one origin (default: 'oauth_kit') */
+  syncChannel?: string;
 }
 
 /**
@@ -108,6 +436,7 @@ export interface AuthResult {
   access_token: string;
   refresh_token?: string;
   expires_in?: number;
+  id_token?: string;
   user?: User;
   [key: string]: any;
 }
@@ -120,6 +449,12 @@ export interface Session {
   refresh_token?: string;
   expires_at?: number;
   user: User;
+
+  /** Verified OpenID Connect ID token (kept as `id_token_hint` for logout) */
+  id_token?: string;
+
+  /** Name of the provider the session belongs to */
+  provider?: string;
 }
 
 /**
@@ -0,0 +1,219 @@
+/**
+ * OAuth Kit - Apple Provider
+ * Sign in with Apple (response_mode=form_post through a server-side relay)
+ *
+ * Apple POSTs the callback to the redirect URI, which pages can't read. The relay
+ * (see ./server.ts) turns the POST into a redirect to /auth/callback or /native-callback
+ * with the params in the fragment. Apple's token endpoint needs a client-secret JWT,
+ * so the code is exchanged by your backend as well.
+ */
+
+import type {
+  OAuthProvider,
+  OAuthUrlOptions,
+  CallbackContext,
+  AuthResult,
+  OidcConfig,
+  User,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+import { decodeJwt, userFromClaims } from '../../core/oidc';
+
+export const APPLE_ISSUER = 'https://appleid.apple.com';
+export const APPLE_AUTHORIZE_URL = `${APPLE_ISSUER}/auth/authorize`;
+export const APPLE_JWKS_URL = `${APPLE_ISSUER}/auth/keys`;
+
+/**
+ * Which kit page the relay redirects to - carried as a prefix of `state`
+ * since Apple POSTs every callback to the one registered relay URL
+ */
+export type AppleRelayTarget = 'web' | 'native';
+
+/**
+ * One-time `user` payload Apple posts on the first sign in only
+ */
+export interface AppleUserPayload {
+  name?: { firstName?: string; lastName?: string };
+  email?: string;
+}
+
+export interface AppleProviderConfig {
+  /** Services ID (e.g., 'com.myapp.signin') */
+  clientId: string;
+
+  /** Relay URL registered as the Return URL with Apple (e.g., 'https://api.myapp.com/auth/apple/callback') */
+  relayUrl: string;
+
+  /** Backend endpoint that exchanges the code / refresh token with Apple (see exchangeAppleCode) */
+  tokenEndpoint: string;
+
+  /** Optional: Scopes (default: ['name', 'email']) */
+  scopes?: string[];
+
+  /** Optional: Extra headers for tokenEndpoint requests */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Apple Provider
+ * Implements OAuthProvider interface for Sign in with Apple
+ */
+export class AppleProvider implements OAuthProvider {
+  private clientId: string;
+  private relayUrl: string;
+  private tokenEndpoint: string;
+  private scopes: string[];
+  private headers: Record<string, string>;
+
+  constructor(config: AppleProviderConfig) {
+    this.clientId = config.clientId;
+    this.relayUrl = config.relayUrl;
+    this.tokenEndpoint = config.tokenEndpoint;
+    this.scopes = config.scopes || ['name', 'email'];
+    this.headers = config.headers || {};
+  }
+
+  async getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      client_id: this.clientId,
+      // Apple posts to the relay, which redirects on to redirectUri's page
+      redirect_uri: this.relayUrl,
+      response_type: 'code',
+      response_mode: 'form_post',
+      state: encodeAppleState(relayTarget(redirectUri), state),
+    });
+
+    if (this.scopes.length > 0) {
+      params.set('scope', this.scopes.join(' '));
+    }
+
+    // Apple has no PKCE - the nonce binds the ID token to this flow instead
+    if (options?.nonce) {
+      params.set('nonce', options.nonce);
+    }
+
+    return `${APPLE_AUTHORIZE_URL}?${params.toString()}`;
+  }
+
+  async handleCallback(params: Record<string, string>, _context?: CallbackContext): Promise<AuthResult> {
+    // Check for error (user_cancelled_authorize -> cancelled)
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
+    }
+
+    const code = params.code;
+    if (!code) {
+      throw new OAuthError('invalid_response', 'No authorization code in callback');
+    }
+
+    const result = await this.requestToken(
+      { grant_type: 'authorization_code', code, redirect_uri: this.relayUrl },
+      'Token exchange failed'
+    );
+
+    // Apple has no userinfo endpoint: the ID token has the id and email,
+    // the name only comes with the first sign in
+    if (result.id_token) {
+      result.user = {
+        ...userFromClaims(decodeJwt(result.id_token)),
+        ...userFromPayload(params.user),
+      };
+    }
+
+    return result;
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    const result = await this.requestToken(
+      { grant_type: 'refresh_token', refresh_token: refreshToken },
+      'Token refresh failed'
+    );
+
+    // Apple doesn't rotate refresh tokens
+    return { ...result, refresh_token: result.refresh_token || refreshToken };
+  }
+
+  getOidcConfig(): OidcConfig {
+    return {
+      issuer: APPLE_ISSUER,
+      clientId: this.clientId,
+      jwksUri: APPLE_JWKS_URL,
+      algorithms: ['RS256'],
+    };
+  }
+
+  private async requestToken(body: Record<string, string>, failureMessage: string): Promise<AuthResult> {
+    const tokenResponse = await fetch(this.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        ...this.headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    if (!tokenResponse.ok) {
+      throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', failureMessage);
+    }
+
+    const tokenData = await tokenResponse.json();
+    if (!tokenData.access_token) {
+      throw new OAuthError('invalid_response', 'Invalid token response: missing access_token');
+    }
+
+    return {
+      access_token: tokenData.access_token,
+      refresh_token: tokenData.refresh_token,
+      expires_in: tokenData.expires_in,
+      id_token: tokenData.id_token,
+    };
+  }
+}
+
+/**
+ * Prefix the kit's state with the relay target ('native.<state>')
+ */
+export function encodeAppleState(target: AppleRelayTarget, state: string): string {
+  return `${target}.${state}`;
+}
+
+/**
+ * Split a relayed state back into target and the kit's state
+ * @returns null for states this kit didn't issue
+ */
+export function decodeAppleState(value: string): { target: AppleRelayTarget; state: string } | null {
+  const separator = value.indexOf('.');
+  const target = value.substring(0, separator);
+  const state = value.substring(separator + 1);
+  if (separator < 0 || (target !== 'web' && target !== 'native') || !state) {
+    return null;
+  }
+  return { target, state };
+}
+
+function relayTarget(redirectUri: string): AppleRelayTarget {
+  return new URL(redirectUri).pathname.replace(/\/$/, '').endsWith('/native-callback') ? 'native' : 'web';
+}
+
+/**
+ * Name from Apple's one-time `user` JSON (the email is taken from the verified ID token)
+ */
+function userFromPayload(raw: string | undefined): Partial<User> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const payload = JSON.parse(raw) as AppleUserPayload;
+    const name = [payload.name?.firstName, payload.name?.lastName].filter(Boolean).join(' ');
+    return name ? { name } : {};
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * OAuth Kit - Apple Provider (server side)
+ * form_post relay, client-secret JWT and token exchange for Sign in with Apple
+ * Node only - don't import this from browser code.
+ */
+
+import { createPrivateKey, sign } from 'node:crypto';
+import { OAuthError } from '../../core/errors';
+import { APPLE_ISSUER, decodeAppleState } from './index';
+
+const APPLE_TOKEN_URL = `${APPLE_ISSUER}/auth/token`;
+
+// Apple rejects client secrets valid for longer than 6 months
+const MAX_CLIENT_SECRET_TTL = 15777000;
+
+export interface AppleClientSecretOptions {
+  /** Apple Developer Team ID */
+  teamId: string;
+
+  /** Services ID the secret is for */
+  clientId: string;
+
+  /** Key ID of the Sign in with Apple key */
+  keyId: string;
+
+  /** Contents of the .p8 key file (PKCS#8 PEM) */
+  privateKey: string;
+
+  /** Optional: Lifetime in seconds (default and max: 6 months) */
+  expiresIn?: number;
+}
+
+export interface AppleRelayOptions {
+  /** App URL the relay redirects to (e.g., 'https://myapp.com') */
+  appUrl: string;
+
+  /** Optional: Web callback path (default: '/auth/callback') */
+  callbackPath?: string;
+
+  /** Optional: Native callback path (default: '/native-callback') */
+  nativeCallbackPath?: string;
+}
+
+export interface AppleTokenOptions {
+  /** Services ID */
+  clientId: string;
+
+  /** Client secret JWT, or options to generate one per request */
+  clientSecret: string | AppleClientSecretOptions;
+
+  /** Return URL registered with Apple (the relay URL) - required for code exchange */
+  redirectUri?: string;
+}
+
+/**
+ * Apple token endpoint response
+ */
+export interface AppleTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token?: string;
+  id_token: string;
+}
+
+/**
+ * Create the ES256 client-secret JWT Apple's token endpoint expects
+ */
+export function createAppleClientSecret(options: AppleClientSecretOptions): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = { alg: 'ES256', kid: options.keyId };
+  const payload = {
+    iss: options.teamId,
+    iat: now,
+    exp: now + Math.min(options.expiresIn ?? MAX_CLIENT_SECRET_TTL, MAX_CLIENT_SECRET_TTL),
+    aud: APPLE_ISSUER,
+    sub: options.clientId,
+  };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  // JWS wants the raw r||s signature, not DER
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key: createPrivateKey(options.privateKey),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Turn Apple's form_post body into the redirect for the kit's callback page
+ *
+ * The target page comes from the state prefix, never from the request, so the relay
+ * can't be used as an open redirect. Params (including the one-time `user`) go in the
+ * fragment: it isn't sent to servers or leaked in Referer headers.
+ * Respond with a 303 so the browser follows with a GET.
+ * @throws OAuthError when the state wasn't issued by AppleProvider
+ */
+export function createAppleRelayRedirect(
+  body: Record<string, unknown>,
+  options: AppleRelayOptions
+): string {
+  const decoded = typeof body.state === 'string' ? decodeAppleState(body.state) : null;
+  if (!decoded) {
+    throw new OAuthError('state_mismatch', 'Apple callback has no valid state');
+  }
+
+  const params = new URLSearchParams({ state: decoded.state });
+  for (const key of ['code', 'user', 'error', 'error_description']) {
+    const value = body[key];
+    if (typeof value === 'string' && value) {
+      params.set(key, value);
+    }
+  }
+
+  const path =
+    decoded.target === 'native'
+      ? options.nativeCallbackPath || '/native-callback'
+      : options.callbackPath || '/auth/callback';
+
+  return `${options.appUrl.replace(/\/$/, '')}${path}#${params.toString()}`;
+}
+
+/**
+ * Exchange an authorization code with Apple
+ */
+export async function exchangeAppleCode(code: string, options: AppleTokenOptions): Promise<AppleTokenResponse> {
+  if (!options.redirectUri) {
+    throw new OAuthError('invalid_response', 'redirectUri is required for the Apple code exchange');
+  }
+
+  return requestAppleToken(
+    {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: options.redirectUri,
+    },
+    options,
+    'Token exchange failed'
+  );
+}
+
+/**
+ * Get a new access token (and ID token) with a refresh token
+ */
+export async function refreshAppleToken(refreshToken: string, options: AppleTokenOptions): Promise<AppleTokenResponse> {
+  return requestAppleToken(
+    {
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    },
+    options,
+    'Token refresh failed'
+  );
+}
+
+async function requestAppleToken(
+  params: Record<string, string>,
+  options: AppleTokenOptions,
+  failureMessage: string
+): Promise<AppleTokenResponse> {
+  const clientSecret =
+    typeof options.clientSecret === 'string' ? options.clientSecret : createAppleClientSecret(options.clientSecret);
+
+  const tokenResponse = await fetch(APPLE_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      ...params,
+      client_id: options.clientId,
+      client_secret: clientSecret,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', failureMessage);
+  }
+
+  return tokenResponse.json();
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
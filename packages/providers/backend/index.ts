@@ -0,0 +1,246 @@
+/**
+ * OAuth Kit - Backend Provider
+ * Client for packages/server: the browser builds the authorize URL, your backend
+ * exchanges codes with the client secret (and, in BFF mode, keeps the tokens)
+ */
+
+import type {
+  OAuthProvider,
+  OAuthUrlOptions,
+  CallbackContext,
+  AuthResult,
+  Session,
+  TokenSet,
+  User,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+
+// `token_type` of BFF responses (matches BFF_TOKEN_TYPE in packages/server)
+const BFF_TOKEN_TYPE = 'bff';
+
+export interface BackendProviderConfig {
+  /** Where the OAuthServer is mounted (e.g., 'https://api.myapp.com/oauth') */
+  endpoint: string;
+
+  /** Upstream authorize endpoint (e.g., 'https://accounts.google.com/o/oauth2/v2/auth') */
+  authorizeUrl: string;
+
+  /** Upstream client ID */
+  clientId: string;
+
+  /** Optional: Upstream provider name on the server (default: the server's only provider) */
+  provider?: string;
+
+  /** Optional: Scopes (default: ['openid', 'email', 'profile']) */
+  scopes?: string[];
+
+  /** Optional: Extra authorize parameters (e.g., { access_type: 'offline' }) */
+  authorizationParams?: Record<string, string>;
+
+  /**
+   * Optional: Backend-for-frontend mode - tokens stay on the server behind an httpOnly
+   * cookie (requires `bff` on the server). Calls are made with credentials.
+   */
+  bff?: boolean;
+
+  /** Optional: Extra request headers */
+  headers?: Record<string, string>;
+}
+
+/**
+ * /exchange and /refresh response of packages/server (its TokenResponse)
+ * In BFF mode `access_token` is the transfer code and `token_type` is 'bff'.
+ */
+interface ServerTokenResponse {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  expires_in?: number;
+  id_token?: string;
+  user?: User;
+}
+
+/**
+ * Backend Provider
+ * Implements OAuthProvider interface on top of an OAuthServer
+ *
+ * In BFF mode the session's `access_token` isn't an upstream token: it's a one-time
+ * transfer code that moves the server session to the WebView's cookie jar after a
+ * native sign in. Call your API with `credentials: 'include'` instead. Native BFF sign-ins
+ * need a `handoffStore`: the transfer code is bound to the WebView's handoff secret.
+ */
+export class BackendProvider implements OAuthProvider {
+  private endpoint: string;
+  private authorizeUrl: string;
+  private clientId: string;
+  private provider?: string;
+  private scopes: string[];
+  private authorizationParams: Record<string, string>;
+  private bff: boolean;
+  private headers: Record<string, string>;
+
+  constructor(config: BackendProviderConfig) {
+    this.endpoint = config.endpoint.replace(/\/$/, ''); // Remove trailing slash
+    this.authorizeUrl = config.authorizeUrl;
+    this.clientId = config.clientId;
+    this.provider = config.provider;
+    this.scopes = config.scopes || ['openid', 'email', 'profile'];
+    this.authorizationParams = config.authorizationParams || {};
+    this.bff = !!config.bff;
+    this.headers = config.headers || {};
+  }
+
+  async getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      ...this.authorizationParams,
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: this.scopes.join(' '),
+      state: state,
+    });
+
+    if (options?.codeChallenge) {
+      params.set('code_challenge', options.codeChallenge);
+      params.set('code_challenge_method', options.codeChallengeMethod || 'S256');
+    }
+
+    if (options?.nonce) {
+      params.set('nonce', options.nonce);
+    }
+
+    return `${this.authorizeUrl}${this.authorizeUrl.includes('?') ? '&' : '?'}${params.toString()}`;
+  }
+
+  async handleCallback(params: Record<string, string>, context?: CallbackContext): Promise<AuthResult> {
+    // Check for error
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
+    }
+
+    const code = params.code;
+    if (!code) {
+      throw new OAuthError('invalid_response', 'No authorization code in callback');
+    }
+
+    const data = await this.post<ServerTokenResponse>('/exchange', {
+      provider: this.provider,
+      code,
+      redirect_uri: context?.redirectUri || params.redirect_uri || '',
+      code_verifier: context?.codeVerifier,
+      // BFF: binds the transfer code to the WebView of a native sign in
+      handoff_challenge: this.bff ? context?.handoffChallenge : undefined,
+    }, 'Token exchange failed');
+
+    return toAuthResult(data);
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    const data = await this.post<ServerTokenResponse>('/refresh', {
+      provider: this.provider,
+      refresh_token: refreshToken,
+    }, 'Token refresh failed');
+
+    return toAuthResult(data);
+  }
+
+  /**
+   * Revoke a token through the server (RFC 7009)
+   * BFF: no-op - there are no upstream tokens here, signOut ends the server session
+   */
+  async revokeToken(token: string, tokenTypeHint?: 'access_token' | 'refresh_token'): Promise<void> {
+    if (this.bff) {
+      return;
+    }
+    await this.post('/revoke', {
+      provider: this.provider,
+      token,
+      token_type_hint: tokenTypeHint,
+    }, 'Token revocation failed');
+  }
+
+  /**
+   * BFF: claim the transfer code, so this cookie jar (e.g. the WebView's) gets the session cookie
+   * The WebView proves it started the sign in with its handoff secret.
+   */
+  async setSession(tokens: TokenSet, context?: CallbackContext): Promise<void> {
+    if (!this.bff) {
+      return;
+    }
+    await this.post('/session/claim', {
+      code: tokens.access_token,
+      verifier: context?.handoffVerifier,
+    }, 'Session transfer failed');
+  }
+
+  /**
+   * BFF: session of the cookie (restores the kit session when local storage was cleared)
+   */
+  async getSession(): Promise<Session | null> {
+    if (!this.bff) {
+      return null;
+    }
+
+    const response = await this.request('GET', '/session');
+    if (!response.ok) {
+      return null;
+    }
+
+    const data: { user: User } = await response.json();
+    return { access_token: BFF_TOKEN_TYPE, user: data.user };
+  }
+
+  /**
+   * BFF: end the server session (revokes its tokens and clears the cookie)
+   */
+  async signOut(): Promise<void> {
+    if (!this.bff) {
+      return;
+    }
+    await this.post('/revoke', {}, 'Sign out failed');
+  }
+
+  private async post<T = unknown>(path: string, body: Record<string, unknown>, failureMessage: string): Promise<T> {
+    const response = await this.request('POST', path, body);
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'token_exchange_failed', failureMessage);
+    }
+    return response.json();
+  }
+
+  private request(method: string, path: string, body?: Record<string, unknown>): Promise<Response> {
+    return fetch(`${this.endpoint}${path}`, {
+      method,
+      headers: {
+        ...this.headers,
+        ...(body ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+      // The BFF session cookie lives on the server's origin
+      credentials: this.bff ? 'include' : 'same-origin',
+    });
+  }
+}
+
+/**
+ * AuthResult of an /exchange or /refresh response
+ */
+function toAuthResult(data: ServerTokenResponse): AuthResult {
+  if (!data.access_token) {
+    throw new OAuthError('invalid_response', 'Invalid token response: missing access_token');
+  }
+
+  return {
+    access_token: data.access_token,
+    refresh_token: data.refresh_token,
+    expires_in: typeof data.expires_in === 'number' ? data.expires_in : undefined,
+    id_token: data.id_token,
+    user: data.user,
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * OAuth Kit - GitHub Provider
+ * GitHub OAuth Apps / GitHub Apps (plain OAuth 2.0 - no OIDC, no userinfo)
+ */
+
+import type {
+  OAuthProvider,
+  OAuthUrlOptions,
+  CallbackContext,
+  AuthResult,
+  User,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+
+export interface GitHubProviderConfig {
+  /** OAuth App / GitHub App client ID */
+  clientId: string;
+
+  /**
+   * Backend endpoint that exchanges the code (and refresh tokens) with GitHub's client secret
+   * Receives JSON `{ grant_type, code, redirect_uri, code_verifier }` or
+   * `{ grant_type: 'refresh_token', refresh_token }` and returns GitHub's token response.
+   * Recommended: GitHub's token endpoint needs the client secret and doesn't allow CORS.
+   * Not packages/server's /exchange (which takes `{ provider, ... }`): with OAuthServer,
+   * use BackendProvider and a GitHub upstream instead.
+   */
+  exchangeEndpoint?: string;
+
+  /** Optional: Client secret for direct exchange (non-browser use only - never ship it to the browser) */
+  clientSecret?: string;
+
+  /** Optional: Scopes (default: ['read:user', 'user:email']) */
+  scopes?: string[];
+
+  /** Optional: Extra headers for exchangeEndpoint requests */
+  headers?: Record<string, string>;
+
+  /** Optional: GitHub URL (default: 'https://github.com', set for GitHub Enterprise Server) */
+  baseUrl?: string;
+
+  /** Optional: REST API URL (default: 'https://api.github.com') */
+  apiUrl?: string;
+
+  /** Optional: Extra authorize parameters (e.g., { allow_signup: 'false' }) */
+  authorizationParams?: Record<string, string>;
+}
+
+/**
+ * Subset of GET /user
+ */
+interface GitHubUser {
+  id: number;
+  login: string;
+  name: string | null;
+  email: string | null;
+  avatar_url: string;
+  html_url: string;
+}
+
+/**
+ * Entry of GET /user/emails
+ */
+interface GitHubEmail {
+  email: string;
+  primary: boolean;
+  verified: boolean;
+}
+
+/**
+ * GitHub Provider
+ * Implements OAuthProvider interface for GitHub
+ */
+export class GitHubProvider implements OAuthProvider {
+  private clientId: string;
+  private clientSecret?: string;
+  private exchangeEndpoint?: string;
+  private scopes: string[];
+  private headers: Record<string, string>;
+  private baseUrl: string;
+  private apiUrl: string;
+  private authorizationParams: Record<string, string>;
+
+  constructor(config: GitHubProviderConfig) {
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.exchangeEndpoint = config.exchangeEndpoint;
+    this.scopes = config.scopes || ['read:user', 'user:email'];
+    this.headers = config.headers || {};
+    this.baseUrl = (config.baseUrl || 'https://github.com').replace(/\/$/, ''); // Remove trailing slash
+    this.apiUrl = (config.apiUrl || 'https://api.github.com').replace(/\/$/, '');
+    this.authorizationParams = config.authorizationParams || {};
+  }
+
+  async getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): Promise<string> {
+    const params = new URLSearchParams({
+      ...this.authorizationParams,
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      scope: this.scopes.join(' '),
+      state: state,
+    });
+
+    if (options?.codeChallenge) {
+      params.set('code_challenge', options.codeChallenge);
+      params.set('code_challenge_method', options.codeChallengeMethod || 'S256');
+    }
+
+    return `${this.baseUrl}/login/oauth/authorize?${params.toString()}`;
+  }
+
+  async handleCallback(params: Record<string, string>, context?: CallbackContext): Promise<AuthResult> {
+    // Check for error (access_denied when the user cancels)
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
+    }
+
+    const code = params.code;
+    if (!code) {
+      throw new OAuthError('invalid_response', 'No authorization code in callback');
+    }
+
+    const body: Record<string, string> = {
+      grant_type: 'authorization_code',
+      code: code,
+      redirect_uri: context?.redirectUri || params.redirect_uri || '',
+    };
+    if (context?.codeVerifier) {
+      body.code_verifier = context.codeVerifier;
+    }
+
+    return this.requestToken(body, 'Token exchange failed');
+  }
+
+  /**
+   * Only for GitHub Apps with expiring user tokens - OAuth Apps never return a refresh token
+   */
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    return this.requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken }, 'Token refresh failed');
+  }
+
+  async getUser(accessToken: string): Promise<User> {
+    const user = await this.api<GitHubUser>('/user', accessToken);
+
+    // `email` is only the public profile email - fall back to the primary verified one
+    let email = user.email;
+    if (!email) {
+      try {
+        const emails = await this.api<GitHubEmail[]>('/user/emails', accessToken);
+        email = emails.find((entry) => entry.primary && entry.verified)?.email || null;
+      } catch {
+        // Token lacks the user:email scope
+      }
+    }
+
+    return {
+      id: String(user.id),
+      email: email || undefined,
+      name: user.name || user.login,
+      avatar_url: user.avatar_url,
+      login: user.login,
+      html_url: user.html_url,
+    };
+  }
+
+  /**
+   * GET a REST API endpoint
+   */
+  private async api<T>(path: string, accessToken: string): Promise<T> {
+    const response = await fetch(`${this.apiUrl}${path}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/vnd.github+json',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+    });
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'invalid_response', `GitHub API ${path} failed`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Token request through the backend exchange endpoint, or directly with the client secret
+   */
+  private async requestToken(body: Record<string, string>, failureMessage: string): Promise<AuthResult> {
+    const tokenResponse = this.exchangeEndpoint
+      ? await fetch(this.exchangeEndpoint, {
+          method: 'POST',
+          headers: {
+            ...this.headers,
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          body: JSON.stringify(body),
+        })
+      : await fetch(`${this.baseUrl}/login/oauth/access_token`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            // Without it GitHub answers form-encoded
+            'Accept': 'application/json',
+          },
+          body: new URLSearchParams({
+            ...body,
+            client_id: this.clientId,
+            ...(this.clientSecret ? { client_secret: this.clientSecret } : {}),
+          }),
+        });
+
+    if (!tokenResponse.ok) {
+      throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', failureMessage);
+    }
+
+    const tokenData = await tokenResponse.json();
+
+    // GitHub reports errors (bad_verification_code, bad_refresh_token, ...) with a 200
+    if (tokenData.error) {
+      // A revoked, expired or rotated-away refresh token is RFC 6749's invalid_grant
+      // (the manager ends the session on it)
+      const badRefreshToken = tokenData.error === 'bad_refresh_token';
+      throw new OAuthError(
+        badRefreshToken ? 'expired_session' : 'token_exchange_failed',
+        `${failureMessage}: ${tokenData.error_description || tokenData.error}`,
+        {
+          error: badRefreshToken ? 'invalid_grant' : tokenData.error,
+          errorDescription: tokenData.error_description,
+          errorUri: tokenData.error_uri,
+        }
+      );
+    }
+    if (!tokenData.access_token) {
+      throw new OAuthError('invalid_response', 'Invalid token response: missing access_token');
+    }
+
+    // expires_in / refresh_token only come with expiring user tokens (GitHub Apps)
+    return {
+      access_token: tokenData.access_token,
+      refresh_token: tokenData.refresh_token,
+      expires_in: tokenData.expires_in ? Number(tokenData.expires_in) : undefined,
+    };
+  }
+}
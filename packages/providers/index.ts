@@ -3,3 +3,8 @@
  */
 
 export * from './mock';
+export * from './oidc';
+export * from './supabase';
+export * from './apple';
+export * from './github';
+export * from './backend';
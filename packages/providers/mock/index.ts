@@ -4,7 +4,17 @@
  * Uses /demo/provider endpoints
  */
 
-import type { OAuthProvider, AuthResult, TokenSet, Session, User } from '../../core/types';
+import type {
+  OAuthProvider,
+  OAuthUrlOptions,
+  CallbackContext,
+  AuthResult,
+  User,
+  EndSessionOptions,
+  OidcConfig,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+import { userFromClaims } from '../../core/oidc';
 
 export interface MockProviderConfig {
   /** Base URL of the demo provider server (e.g., 'http://localhost:3001/demo/provider') */
@@ -12,6 +22,9 @@ export interface MockProviderConfig {
   
   /** Client ID for the mock provider */
   clientId?: string;
+
+  /** Optional: The demo provider's ISSUER when it differs from baseUrl (e.g. behind a proxy) */
+  issuer?: string;
 }
 
 /**
@@ -21,13 +34,20 @@ export interface MockProviderConfig {
 export class MockProvider implements OAuthProvider {
   private baseUrl: string;
   private clientId: string;
+  private issuer: string;
 
   constructor(config: MockProviderConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, ''); // Remove trailing slash
     this.clientId = config.clientId || 'demo-client-id';
+    this.issuer = (config.issuer || this.baseUrl).replace(/\/$/, '');
   }
 
-  async getOAuthUrl(provider: string, redirectUri: string, state: string): Promise<string> {
+  async getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): Promise<string> {
     const params = new URLSearchParams({
       client_id: this.clientId,
       redirect_uri: redirectUri,
@@ -36,38 +56,80 @@ export class MockProvider implements OAuthProvider {
       state: state,
     });
 
+    // PKCE (required by the demo provider)
+    if (options?.codeChallenge) {
+      params.set('code_challenge', options.codeChallenge);
+      params.set('code_challenge_method', options.codeChallengeMethod || 'S256');
+    }
+
+    if (options?.nonce) {
+      params.set('nonce', options.nonce);
+    }
+
     return `${this.baseUrl}/authorize?${params.toString()}`;
   }
 
-  async handleCallback(params: Record<string, string>): Promise<AuthResult> {
+  async handleCallback(params: Record<string, string>, context?: CallbackContext): Promise<AuthResult> {
     // Check for error
-    if (params.error) {
-      throw new Error(params.error_description || params.error);
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
     }
 
     // Get authorization code
     const code = params.code;
     if (!code) {
-      throw new Error('No authorization code in callback');
+      throw new OAuthError('invalid_response', 'No authorization code in callback');
     }
 
     // Exchange code for tokens
+    const body = new URLSearchParams({
+      code: code,
+      grant_type: 'authorization_code',
+      redirect_uri: context?.redirectUri || params.redirect_uri || '',
+      client_id: this.clientId,
+    });
+    if (context?.codeVerifier) {
+      body.set('code_verifier', context.codeVerifier);
+    }
+
+    const tokenResponse = await fetch(`${this.baseUrl}/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body,
+    });
+
+    if (!tokenResponse.ok) {
+      throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', 'Token exchange failed');
+    }
+
+    const tokenData = await tokenResponse.json();
+
+    return {
+      access_token: tokenData.access_token,
+      refresh_token: tokenData.refresh_token,
+      expires_in: tokenData.expires_in,
+      id_token: tokenData.id_token,
+    };
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
     const tokenResponse = await fetch(`${this.baseUrl}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
       },
       body: new URLSearchParams({
-        code: code,
-        grant_type: 'authorization_code',
-        redirect_uri: params.redirect_uri || '',
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
         client_id: this.clientId,
       }),
     });
 
     if (!tokenResponse.ok) {
-      const errorText = await tokenResponse.text();
-      throw new Error(`Token exchange failed: ${errorText}`);
+      throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', 'Token refresh failed');
     }
 
     const tokenData = await tokenResponse.json();
@@ -76,69 +138,66 @@ export class MockProvider implements OAuthProvider {
       access_token: tokenData.access_token,
       refresh_token: tokenData.refresh_token,
       expires_in: tokenData.expires_in,
+      id_token: tokenData.id_token,
     };
   }
 
-  async setSession(tokens: TokenSet): Promise<void> {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      return;
-    }
+  async revokeToken(token: string, tokenTypeHint: 'access_token' | 'refresh_token'): Promise<void> {
+    const revokeResponse = await fetch(`${this.baseUrl}/revoke`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        token,
+        token_type_hint: tokenTypeHint,
+        client_id: this.clientId,
+      }),
+    });
 
-    localStorage.setItem('oauth_access_token', tokens.access_token);
-    if (tokens.refresh_token) {
-      localStorage.setItem('oauth_refresh_token', tokens.refresh_token);
-    }
-    if (tokens.expires_in) {
-      const expiresAt = Date.now() + tokens.expires_in * 1000;
-      localStorage.setItem('oauth_expires_at', expiresAt.toString());
+    if (!revokeResponse.ok) {
+      throw await OAuthError.fromResponse(revokeResponse, 'invalid_response', 'Token revocation failed');
     }
   }
 
-  async getSession(): Promise<Session | null> {
-    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
-      return null;
+  getEndSessionUrl(options: EndSessionOptions): string {
+    const params = new URLSearchParams({ client_id: this.clientId });
+    if (options.idTokenHint) {
+      params.set('id_token_hint', options.idTokenHint);
     }
-
-    const accessToken = localStorage.getItem('oauth_access_token');
-    if (!accessToken) {
-      return null;
+    if (options.postLogoutRedirectUri) {
+      params.set('post_logout_redirect_uri', options.postLogoutRedirectUri);
     }
-
-    // Fetch user info
-    try {
-      const userResponse = await fetch(`${this.baseUrl}/userinfo`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-        },
-      });
-
-      if (!userResponse.ok) {
-        // Token might be invalid
-        this.signOut();
-        return null;
-      }
-
-      const user: User = await userResponse.json();
-
-      const expiresAt = localStorage.getItem('oauth_expires_at');
-      
-      return {
-        access_token: accessToken,
-        refresh_token: localStorage.getItem('oauth_refresh_token') || undefined,
-        expires_at: expiresAt ? parseInt(expiresAt, 10) : undefined,
-        user,
-      };
-    } catch (error) {
-      console.error('Failed to fetch user info:', error);
-      return null;
+    if (options.state) {
+      params.set('state', options.state);
     }
+
+    return `${this.baseUrl}/end_session?${params.toString()}`;
+  }
+
+  /**
+   * ID tokens are RS256-signed with the keys at `/jwks`
+   */
+  getOidcConfig(): OidcConfig {
+    return {
+      issuer: this.issuer,
+      clientId: this.clientId,
+      jwksUri: `${this.baseUrl}/jwks`,
+    };
   }
 
-  async signOut(): Promise<void> {
-    if (typeof window !== 'undefined' && typeof localStorage !== 'undefined') {
-      localStorage.removeItem('oauth_access_token');
-      localStorage.removeItem('oauth_refresh_token');
-      localStorage.removeItem('oauth_expires_at');
+  async getUser(accessToken: string): Promise<User> {
+    const userResponse = await fetch(`${this.baseUrl}/userinfo`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!userResponse.ok) {
+      throw await OAuthError.fromResponse(userResponse, 'invalid_response', 'Failed to fetch user info');
     }
+
+    // Standard OpenID Connect claims (sub, email, name, picture)
+    return userFromClaims(await userResponse.json());
   }
 }
@@ -0,0 +1,373 @@
+/**
+ * OAuth Kit - OIDC Provider
+ * Generic OpenID Connect provider configured from the issuer's discovery document
+ * (Google, Auth0, Keycloak, Okta, ...)
+ */
+
+import type {
+  OAuthProvider,
+  OAuthUrlOptions,
+  CallbackContext,
+  AuthResult,
+  OidcConfig,
+  User,
+  EndSessionOptions,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+import { userFromClaims, type IdTokenClaims } from '../../core/oidc';
+
+/**
+ * Subset of `.well-known/openid-configuration` used by the provider
+ */
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  end_session_endpoint?: string;
+  revocation_endpoint?: string;
+  scopes_supported?: string[];
+  code_challenge_methods_supported?: string[];
+  [key: string]: any;
+}
+
+/**
+ * How the client authenticates at the token endpoint
+ * - none: public client (PKCE only, default)
+ * - client_secret_post: secret in the form body
+ * - client_secret_basic: secret in the Authorization header
+ */
+export type OidcTokenAuthMethod = 'none' | 'client_secret_post' | 'client_secret_basic';
+
+export interface OidcProviderConfig {
+  /** Issuer URL (e.g., 'https://accounts.google.com') */
+  issuer: string;
+
+  /** Client ID registered with the issuer */
+  clientId: string;
+
+  /** Optional: Scopes to request (default: ['openid', 'email', 'profile']) */
+  scopes?: string[];
+
+  /** Optional: Client secret - only for issuers that refuse public clients (it ships to the browser) */
+  clientSecret?: string;
+
+  /** Optional: Token endpoint authentication (default: 'client_secret_post' with a secret, else 'none') */
+  tokenAuthMethod?: OidcTokenAuthMethod;
+
+  /** Optional: Extra authorize parameters (e.g., { access_type: 'offline', prompt: 'consent' } for Google, { audience } for Auth0) */
+  authorizationParams?: Record<string, string>;
+
+  /** Optional: Discovery document URL (default: {issuer}/.well-known/openid-configuration) */
+  discoveryUrl?: string;
+
+  /** Optional: Override endpoints the discovery document lacks or gets wrong (e.g., Auth0's end_session_endpoint) */
+  endpoints?: Partial<Omit<OidcDiscoveryDocument, 'issuer'>>;
+
+  /**
+   * Optional: Expected `iss` when it differs from the discovery issuer (e.g., Azure AD multi-tenant,
+   * whose `/common` document has a `{tenantid}` issuer). The discovery issuer then doesn't have to match `issuer`.
+   */
+  idTokenIssuer?: string;
+
+  /** Optional: Accepted ID token signing algorithms */
+  algorithms?: string[];
+
+  /** Optional: Allowed clock skew in seconds for ID token checks */
+  clockSkew?: number;
+
+  /** Optional: Scope sent with refresh requests (some issuers drop scopes without it) */
+  refreshScope?: boolean;
+
+  /** Optional: Fetch /userinfo after sign in instead of building the user from ID token claims (default: false) */
+  fetchUserInfo?: boolean;
+}
+
+// Discovery documents are cached per URL for the lifetime of the page
+const discoveryCache = new Map<string, Promise<OidcDiscoveryDocument>>();
+
+/**
+ * OIDC Provider
+ * Implements OAuthProvider interface for any OpenID Connect issuer
+ */
+export class OidcProvider implements OAuthProvider {
+  private issuer: string;
+  private clientId: string;
+  private clientSecret?: string;
+  private tokenAuthMethod: OidcTokenAuthMethod;
+  private scopes: string[];
+  private discoveryUrl: string;
+  private config: OidcProviderConfig;
+
+  constructor(config: OidcProviderConfig) {
+    this.issuer = config.issuer.replace(/\/$/, ''); // Remove trailing slash
+    this.clientId = config.clientId;
+    this.clientSecret = config.clientSecret;
+    this.tokenAuthMethod = config.tokenAuthMethod || (config.clientSecret ? 'client_secret_post' : 'none');
+    this.scopes = config.scopes || ['openid', 'email', 'profile'];
+    this.discoveryUrl = config.discoveryUrl || `${this.issuer}/.well-known/openid-configuration`;
+    this.config = config;
+
+    if (!this.scopes.includes('openid')) {
+      this.scopes = ['openid', ...this.scopes];
+    }
+  }
+
+  async getOAuthUrl(
+    provider: string,
+    redirectUri: string,
+    state: string,
+    options?: OAuthUrlOptions
+  ): Promise<string> {
+    const discovery = await this.getDiscovery();
+
+    const params = new URLSearchParams({
+      ...this.config.authorizationParams,
+      client_id: this.clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: this.scopes.join(' '),
+      state: state,
+    });
+
+    if (options?.codeChallenge) {
+      params.set('code_challenge', options.codeChallenge);
+      params.set('code_challenge_method', options.codeChallengeMethod || 'S256');
+    }
+
+    if (options?.nonce) {
+      params.set('nonce', options.nonce);
+    }
+
+    return appendParams(discovery.authorization_endpoint, params);
+  }
+
+  async handleCallback(params: Record<string, string>, context?: CallbackContext): Promise<AuthResult> {
+    // Check for error
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
+    }
+
+    const code = params.code;
+    if (!code) {
+      throw new OAuthError('invalid_response', 'No authorization code in callback');
+    }
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: code,
+      redirect_uri: context?.redirectUri || params.redirect_uri || '',
+    });
+    if (context?.codeVerifier) {
+      body.set('code_verifier', context.codeVerifier);
+    }
+
+    const result = await this.requestToken(body, 'Token exchange failed');
+    if (this.config.fetchUserInfo) {
+      result.user = await this.getUser(result.access_token);
+    }
+    return result;
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    const body = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    });
+    if (this.config.refreshScope) {
+      body.set('scope', this.scopes.join(' '));
+    }
+
+    return this.requestToken(body, 'Token refresh failed');
+  }
+
+  async getUser(accessToken: string): Promise<User> {
+    const discovery = await this.getDiscovery();
+    if (!discovery.userinfo_endpoint) {
+      throw new OAuthError('invalid_response', 'Issuer has no userinfo endpoint');
+    }
+
+    const userResponse = await fetch(discovery.userinfo_endpoint, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!userResponse.ok) {
+      throw await OAuthError.fromResponse(userResponse, 'invalid_response', 'Failed to fetch user info');
+    }
+
+    const claims = await userResponse.json();
+    if (!claims || typeof claims.sub !== 'string') {
+      throw new OAuthError('invalid_response', 'Invalid userinfo response: missing sub');
+    }
+    return userFromClaims(claims as IdTokenClaims);
+  }
+
+  /**
+   * Revoke a token at the revocation_endpoint (RFC 7009)
+   * Nothing to do when the issuer has none.
+   */
+  async revokeToken(token: string, tokenTypeHint: 'access_token' | 'refresh_token'): Promise<void> {
+    const discovery = await this.getDiscovery();
+    if (!discovery.revocation_endpoint) {
+      return;
+    }
+
+    const body = new URLSearchParams({ token, token_type_hint: tokenTypeHint });
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    this.authenticateClient(body, headers);
+
+    const response = await fetch(discovery.revocation_endpoint, {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'invalid_response', 'Token revocation failed');
+    }
+  }
+
+  async getOidcConfig(): Promise<OidcConfig> {
+    const discovery = await this.getDiscovery();
+    return {
+      issuer: this.config.idTokenIssuer || discovery.issuer,
+      clientId: this.clientId,
+      jwksUri: discovery.jwks_uri,
+      algorithms: this.config.algorithms,
+      clockSkew: this.config.clockSkew,
+    };
+  }
+
+  /**
+   * RP-initiated logout URL (OIDC RP-Initiated Logout 1.0)
+   * @returns null when the issuer has no end_session_endpoint
+   */
+  async getEndSessionUrl(options: EndSessionOptions = {}): Promise<string | null> {
+    const discovery = await this.getDiscovery();
+    if (!discovery.end_session_endpoint) {
+      return null;
+    }
+
+    const params = new URLSearchParams({ client_id: this.clientId });
+    if (options.idTokenHint) {
+      params.set('id_token_hint', options.idTokenHint);
+    }
+    if (options.postLogoutRedirectUri) {
+      params.set('post_logout_redirect_uri', options.postLogoutRedirectUri);
+    }
+    if (options.state) {
+      params.set('state', options.state);
+    }
+
+    return appendParams(discovery.end_session_endpoint, params);
+  }
+
+  /**
+   * Discovery document, fetched once and cached (failed fetches are retried on the next call)
+   */
+  async getDiscovery(): Promise<OidcDiscoveryDocument> {
+    let pending = discoveryCache.get(this.discoveryUrl);
+    if (!pending) {
+      pending = this.fetchDiscovery();
+      discoveryCache.set(this.discoveryUrl, pending);
+      pending.catch(() => discoveryCache.delete(this.discoveryUrl));
+    }
+
+    const discovery = await pending;
+
+    // The document must describe the configured issuer (OIDC Discovery 4.3) - its issuer is
+    // the `iss` ID tokens are checked against, unless idTokenIssuer replaces it.
+    // Checked per provider: the cache is shared by everyone using the same discovery URL.
+    if (!this.config.idTokenIssuer && discovery.issuer.replace(/\/$/, '') !== this.issuer) {
+      throw new OAuthError(
+        'discovery_failed',
+        `OIDC discovery issuer mismatch: expected ${this.issuer}, got ${discovery.issuer}`
+      );
+    }
+
+    return { ...discovery, ...this.config.endpoints, issuer: discovery.issuer };
+  }
+
+  private async fetchDiscovery(): Promise<OidcDiscoveryDocument> {
+    const response = await fetch(this.discoveryUrl, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'discovery_failed', 'Failed to fetch OIDC discovery document');
+    }
+
+    const discovery = (await response.json()) as OidcDiscoveryDocument;
+    if (!discovery.authorization_endpoint || !discovery.token_endpoint || !discovery.jwks_uri) {
+      throw new OAuthError('discovery_failed', 'Invalid OIDC discovery document: missing endpoints');
+    }
+    if (typeof discovery.issuer !== 'string' || !discovery.issuer) {
+      throw new OAuthError('discovery_failed', 'Invalid OIDC discovery document: missing issuer');
+    }
+
+    return discovery;
+  }
+
+  /**
+   * POST to the token endpoint with the configured client authentication
+   */
+  private async requestToken(body: URLSearchParams, failureMessage: string): Promise<AuthResult> {
+    const discovery = await this.getDiscovery();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    };
+
+    this.authenticateClient(body, headers);
+
+    const tokenResponse = await fetch(discovery.token_endpoint, {
+      method: 'POST',
+      headers,
+      body,
+    });
+
+    if (!tokenResponse.ok) {
+      throw await OAuthError.fromResponse(tokenResponse, 'token_exchange_failed', failureMessage);
+    }
+
+    const tokenData = await tokenResponse.json();
+    if (!tokenData.access_token) {
+      throw new OAuthError('invalid_response', 'Invalid token response: missing access_token');
+    }
+
+    return {
+      access_token: tokenData.access_token,
+      refresh_token: tokenData.refresh_token,
+      // Some issuers send expires_in as a string
+      expires_in: tokenData.expires_in ? Number(tokenData.expires_in) : undefined,
+      id_token: tokenData.id_token,
+    };
+  }
+
+  /**
+   * Client authentication of token and revocation requests (tokenAuthMethod)
+   */
+  private authenticateClient(body: URLSearchParams, headers: Record<string, string>): void {
+    if (this.tokenAuthMethod === 'client_secret_basic' && this.clientSecret) {
+      const credentials = `${encodeURIComponent(this.clientId)}:${encodeURIComponent(this.clientSecret)}`;
+      headers['Authorization'] = `Basic ${btoa(credentials)}`;
+    } else {
+      body.set('client_id', this.clientId);
+      if (this.tokenAuthMethod === 'client_secret_post' && this.clientSecret) {
+        body.set('client_secret', this.clientSecret);
+      }
+    }
+  }
+}
+
+/**
+ * Append query params to an endpoint that may already have some (e.g., Azure's ?p=policy)
+ */
+function appendParams(endpoint: string, params: URLSearchParams): string {
+  return `${endpoint}${endpoint.includes('?') ? '&' : '?'}${params.toString()}`;
+}
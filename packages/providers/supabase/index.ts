@@ -0,0 +1,315 @@
+/**
+ * OAuth Kit - Supabase Provider
+ * Wraps a user-supplied Supabase client
+ * (`createClient(url, key, { auth: { flowType: 'pkce', autoRefreshToken: false } })`)
+ */
+
+import type {
+  OAuthProvider,
+  CallbackContext,
+  AuthResult,
+  AuthChangeEvent,
+  AuthStateListener,
+  Session,
+  TokenSet,
+  User,
+} from '../../core/types';
+import { OAuthError } from '../../core/errors';
+
+/**
+ * Subset of a Supabase user used by the provider
+ */
+export interface SupabaseUser {
+  id: string;
+  email?: string;
+  user_metadata?: Record<string, any>;
+  app_metadata?: Record<string, any>;
+  [key: string]: any;
+}
+
+/**
+ * Subset of a Supabase session used by the provider
+ */
+export interface SupabaseSession {
+  access_token: string;
+  refresh_token: string;
+  expires_in?: number;
+  /** Unix time in seconds */
+  expires_at?: number;
+  user: SupabaseUser;
+}
+
+/**
+ * Subset of a Supabase AuthError
+ */
+export interface SupabaseAuthError {
+  message: string;
+  status?: number;
+  code?: string;
+}
+
+type SupabaseResult<T> = Promise<{ data: T; error: SupabaseAuthError | null }>;
+
+/**
+ * The parts of `supabase.auth` the provider calls
+ * Matches supabase-js v2 - kept structural so the kit doesn't depend on it.
+ */
+export interface SupabaseAuthClient {
+  signInWithOAuth(credentials: {
+    provider: string;
+    options?: {
+      redirectTo?: string;
+      scopes?: string;
+      queryParams?: Record<string, string>;
+      skipBrowserRedirect?: boolean;
+    };
+  }): SupabaseResult<{ provider: string; url: string | null }>;
+  exchangeCodeForSession(authCode: string): SupabaseResult<{ session: SupabaseSession | null; user: SupabaseUser | null }>;
+  refreshSession(currentSession?: { refresh_token: string }): SupabaseResult<{ session: SupabaseSession | null; user: SupabaseUser | null }>;
+  setSession(currentSession: { access_token: string; refresh_token: string }): SupabaseResult<{ session: SupabaseSession | null }>;
+  getSession(): SupabaseResult<{ session: SupabaseSession | null }>;
+  getUser(jwt?: string): SupabaseResult<{ user: SupabaseUser | null }>;
+  signOut(options?: { scope?: 'global' | 'local' | 'others' }): Promise<{ error: SupabaseAuthError | null }>;
+  onAuthStateChange(
+    callback: (event: string, session: SupabaseSession | null) => void
+  ): { data: { subscription: { unsubscribe(): void } } };
+}
+
+export interface SupabaseProviderConfig {
+  /**
+   * Supabase client (only `client.auth` is used) - create it with `flowType: 'pkce'`
+   * and `autoRefreshToken: false`
+   */
+  client: { auth: SupabaseAuthClient };
+
+  /** Optional: Extra scopes for the upstream provider (space-separated) */
+  scopes?: string;
+
+  /** Optional: Extra query params for the upstream provider (e.g., { access_type: 'offline' }) */
+  queryParams?: Record<string, string>;
+
+  /** Optional: Custom mapping from a Supabase user to the kit's User */
+  mapUser?: (user: SupabaseUser) => User;
+}
+
+// Supabase doesn't echo `state`, so the kit's state rides along in redirectTo
+const STATE_PARAM = 'oauthkit_state';
+
+// Supabase events the manager understands (PASSWORD_RECOVERY etc. are ignored)
+const EVENT_MAP: Record<string, AuthChangeEvent> = {
+  INITIAL_SESSION: 'INITIAL_SESSION',
+  SIGNED_IN: 'SIGNED_IN',
+  SIGNED_OUT: 'SIGNED_OUT',
+  TOKEN_REFRESHED: 'TOKEN_REFRESHED',
+  USER_UPDATED: 'USER_UPDATED',
+  MFA_CHALLENGE_VERIFIED: 'TOKEN_REFRESHED',
+};
+
+/**
+ * Supabase Provider
+ * Implements OAuthProvider interface on top of Supabase Auth
+ *
+ * Supabase runs its own PKCE: `signInWithOAuth` stores the verifier in the client's
+ * storage and `exchangeCodeForSession` reads it back. On native both run in the
+ * browser session (NativeCallback), and the WebView gets the session via `setSession`.
+ *
+ * The manager refreshes the session. Supabase rotates refresh tokens, so the client's own
+ * auto refresh would spend the same token and the loser of the race signs the user out.
+ */
+export class SupabaseProvider implements OAuthProvider {
+  private auth: SupabaseAuthClient;
+  private config: SupabaseProviderConfig;
+
+  constructor(config: SupabaseProviderConfig) {
+    this.auth = config.client.auth;
+    this.config = config;
+
+    // Not part of the public typings (protected on GoTrueClient)
+    if ((this.auth as { autoRefreshToken?: boolean }).autoRefreshToken) {
+      throw new Error(
+        'SupabaseProvider: create the Supabase client with auth: { autoRefreshToken: false } - the OAuth manager refreshes the session'
+      );
+    }
+  }
+
+  /**
+   * @param provider Supabase provider name ('google', 'github', 'apple', ...)
+   * @param redirectUri Kit callback URI (/auth/callback or /native-callback) - add it to
+   * the Supabase redirect allow list
+   */
+  async getOAuthUrl(provider: string, redirectUri: string, state: string): Promise<string> {
+    const redirectTo = new URL(redirectUri);
+    redirectTo.searchParams.set(STATE_PARAM, state);
+
+    const { data, error } = await this.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: redirectTo.toString(),
+        scopes: this.config.scopes,
+        queryParams: this.config.queryParams,
+        // The manager navigates (or hands the URL to the native bridge)
+        skipBrowserRedirect: true,
+      },
+    });
+
+    if (error) {
+      throw toOAuthError(error, 'invalid_response');
+    }
+    if (!data.url) {
+      throw new OAuthError('invalid_response', 'Supabase did not return an OAuth URL');
+    }
+
+    return data.url;
+  }
+
+  async handleCallback(params: Record<string, string>, _context?: CallbackContext): Promise<AuthResult> {
+    // Check for error
+    const callbackError = OAuthError.fromParams(params);
+    if (callbackError) {
+      throw callbackError;
+    }
+
+    const code = params.code;
+    if (!code) {
+      throw new OAuthError(
+        'invalid_response',
+        "No authorization code in callback - create the Supabase client with flowType: 'pkce'"
+      );
+    }
+
+    const { data, error } = await this.auth.exchangeCodeForSession(code);
+    if (error) {
+      throw toOAuthError(error, 'token_exchange_failed');
+    }
+    if (!data.session) {
+      throw new OAuthError('invalid_response', 'Supabase did not return a session');
+    }
+
+    return this.toAuthResult(data.session);
+  }
+
+  async refreshSession(refreshToken: string): Promise<AuthResult> {
+    const { data, error } = await this.auth.refreshSession({ refresh_token: refreshToken });
+    if (error) {
+      throw toOAuthError(error, 'token_exchange_failed');
+    }
+    if (!data.session) {
+      throw new OAuthError('expired_session');
+    }
+
+    return this.toAuthResult(data.session);
+  }
+
+  async getUser(accessToken: string): Promise<User> {
+    const { data, error } = await this.auth.getUser(accessToken);
+    if (error) {
+      throw toOAuthError(error, 'invalid_response');
+    }
+    if (!data.user) {
+      throw new OAuthError('invalid_response', 'Supabase did not return a user');
+    }
+
+    return this.mapUser(data.user);
+  }
+
+  async setSession(tokens: TokenSet): Promise<void> {
+    // Supabase can't hold a session without a refresh token
+    if (!tokens.refresh_token) {
+      return;
+    }
+
+    // Already there (e.g. the same client just exchanged the code)
+    const { data: current } = await this.auth.getSession();
+    if (current.session?.access_token === tokens.access_token) {
+      return;
+    }
+
+    const { error } = await this.auth.setSession({
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+    });
+    if (error) {
+      throw toOAuthError(error, 'invalid_response');
+    }
+  }
+
+  async getSession(): Promise<Session | null> {
+    const { data, error } = await this.auth.getSession();
+    if (error || !data.session) {
+      return null;
+    }
+
+    return this.toSession(data.session);
+  }
+
+  async signOut(): Promise<void> {
+    const { error } = await this.auth.signOut();
+    if (error) {
+      throw toOAuthError(error, 'network_error');
+    }
+  }
+
+  /**
+   * Forward Supabase's auth events (token refresh, sign out in another tab, ...) to the manager
+   */
+  onAuthStateChange(listener: AuthStateListener): () => void {
+    const { data } = this.auth.onAuthStateChange((supabaseEvent, supabaseSession) => {
+      const event = EVENT_MAP[supabaseEvent];
+      if (!event) {
+        return;
+      }
+      listener(event, supabaseSession ? this.toSession(supabaseSession) : null);
+    });
+
+    return () => data.subscription.unsubscribe();
+  }
+
+  private toAuthResult(session: SupabaseSession): AuthResult {
+    return {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_in: session.expires_in,
+      user: this.mapUser(session.user),
+    };
+  }
+
+  private toSession(session: SupabaseSession): Session {
+    return {
+      access_token: session.access_token,
+      refresh_token: session.refresh_token,
+      expires_at: session.expires_at ? session.expires_at * 1000 : undefined,
+      user: this.mapUser(session.user),
+    };
+  }
+
+  private mapUser(user: SupabaseUser): User {
+    if (this.config.mapUser) {
+      return this.config.mapUser(user);
+    }
+
+    const metadata = user.user_metadata || {};
+    return {
+      id: user.id,
+      email: user.email,
+      name: metadata.full_name || metadata.name || user.email,
+      avatar_url: metadata.avatar_url || metadata.picture,
+    };
+  }
+}
+
+// Supabase error codes of a revoked, spent or rotated-away refresh token
+const DEAD_REFRESH_TOKEN_CODES = ['refresh_token_not_found', 'refresh_token_already_used'];
+
+/**
+ * Supabase AuthError -> OAuthError
+ */
+function toOAuthError(error: SupabaseAuthError, fallback: 'invalid_response' | 'token_exchange_failed' | 'network_error'): OAuthError {
+  // A dead refresh token is RFC 6749's invalid_grant (the manager ends the session on it)
+  if (error.code && DEAD_REFRESH_TOKEN_CODES.includes(error.code)) {
+    return new OAuthError('expired_session', error.message, { error: 'invalid_grant', cause: error });
+  }
+
+  // supabase-js reports fetch failures as status 0 (AuthRetryableFetchError)
+  const code = error.status === 0 ? 'network_error' : fallback;
+  return new OAuthError(code, error.message, { error: error.code, cause: error });
+}
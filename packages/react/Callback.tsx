@@ -3,19 +3,21 @@
  * Universal component for web OAuth callback
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import type { OAuthProvider, AuthResult } from '../core/types';
+import { OAuthError } from '../core/errors';
+import { useOAuthContext } from './context';
 
 export interface CallbackProps {
-  /** OAuth provider instance */
-  provider: OAuthProvider;
+  /** Optional: OAuth provider instance (defaults to the provider configured on OAuthProvider) */
+  provider?: OAuthProvider;
   
-  /** Path to redirect to after successful callback */
+  /** Path to redirect to after successful callback (unless signIn was given a returnTo) */
   redirectTo?: string;
   
-  /** Optional: Custom error handler */
-  onError?: (error: Error) => void;
+  /** Optional: Custom error handler (branch on `error.code`) */
+  onError?: (error: OAuthError) => void;
   
   /** Optional: Custom success handler */
   onSuccess?: (result: AuthResult) => void;
@@ -24,7 +26,7 @@ export interface CallbackProps {
   loadingComponent?: React.ReactNode;
   
   /** Optional: Error component */
-  errorComponent?: (error: string) => React.ReactNode;
+  errorComponent?: (error: string, oauthError: OAuthError) => React.ReactNode;
 }
 
 /**
@@ -41,10 +43,19 @@ export function Callback({
 }: CallbackProps) {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const [error, setError] = useState<string | null>(null);
+  const { manager, store } = useOAuthContext();
+  const [error, setError] = useState<OAuthError | null>(null);
   const [isProcessing, setIsProcessing] = useState(true);
+  // States are single-use: process each callback URL once (StrictMode runs effects twice)
+  const handledRef = useRef<string | null>(null);
 
   useEffect(() => {
+    const callbackKey = searchParams.toString() + (typeof window !== 'undefined' ? window.location.hash : '');
+    if (handledRef.current === callbackKey) {
+      return;
+    }
+    handledRef.current = callbackKey;
+
     const handleCallback = async () => {
       try {
         setIsProcessing(true);
@@ -65,71 +76,41 @@ export function Callback({
           });
         }
 
-        // Check for error in params
-        if (params.error) {
-          throw new Error(params.error_description || params.error);
-        }
-
-        // Check if tokens are already in params (from native deeplink flow)
-        // In native flow, NativeCallback sends tokens via deeplink
-        if (params.access_token) {
-          // Tokens already present - just set session directly
-          await provider.setSession({
-            access_token: params.access_token,
-            refresh_token: params.refresh_token,
-            expires_in: params.expires_in ? parseInt(params.expires_in, 10) : undefined,
-          });
-
-          // Create result for success handler
-          const result: AuthResult = {
-            access_token: params.access_token,
-            refresh_token: params.refresh_token,
-            expires_in: params.expires_in ? parseInt(params.expires_in, 10) : undefined,
-          };
-
-          onSuccess?.(result);
-          navigate(redirectTo, { replace: true });
+        // Sign-in popup: the opener verifies and exchanges, then closes this window
+        if (manager.relayPopupCallback(params)) {
           return;
         }
 
-        // Web flow: exchange code for tokens
-        // Handle callback with provider (expects code in params)
-        const result = await provider.handleCallback(params);
-
-        // Validate result has required fields
-        if (!result || !result.access_token) {
-          throw new Error('Invalid OAuth response: missing access_token');
-        }
-
-        // Set session
-        await provider.setSession({
-          access_token: result.access_token,
-          refresh_token: result.refresh_token,
-          expires_in: result.expires_in,
-        });
+        // Verify state, then either accept tokens from the native deeplink
+        // (NativeCallback sends them with the WebView flow's state) or exchange
+        // the code with the provider (manager supplies the PKCE verifier)
+        const { result, returnTo } = await manager.completeCallback(params, provider);
 
         // Call success handler
         onSuccess?.(result);
 
-        // Redirect to destination
-        navigate(redirectTo, { replace: true });
+        // Redirect to destination (the one passed to signIn, if any)
+        navigate(returnTo || redirectTo, { replace: true });
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Authentication failed';
-        setError(errorMessage);
+        const oauthError = OAuthError.from(err, 'invalid_response');
+        setError(oauthError);
         setIsProcessing(false);
+
+        // Expose on useOAuth().error as well
+        store.setState({ isLoading: false, error: oauthError });
         
         // Call error handler
-        onError?.(err instanceof Error ? err : new Error(errorMessage));
+        onError?.(oauthError);
       }
     };
 
     handleCallback();
-  }, [searchParams, provider, redirectTo, navigate, onError, onSuccess]);
+  }, [searchParams, manager, store, provider, redirectTo, navigate, onError, onSuccess]);
 
   // Show error if present
   if (error) {
     if (errorComponent) {
-      return <>{errorComponent(error)}</>;
+      return <>{errorComponent(error.message, error)}</>;
     }
     
     return (
@@ -143,7 +124,7 @@ export function Callback({
       }}>
         <div>
           <h2>Sign in failed</h2>
-          <p>{error}</p>
+          <p>{error.message}</p>
           <button onClick={() => navigate('/')}>Go to home</button>
         </div>
       </div>
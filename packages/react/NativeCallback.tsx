@@ -3,10 +3,19 @@
  * Universal component for native OAuth callback (drop on page with props)
  */
 
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useSearchParams } from 'react-router-dom';
 import type { OAuthProvider, AuthResult } from '../core/types';
-import { createDespiaDeeplink } from '../core/despia-handler';
+import {
+  NATIVE_START_PARAM,
+  NATIVE_FLOW_PARAM,
+  NATIVE_RETURN_TO_PARAM,
+  NATIVE_HANDOFF_PARAM,
+  NATIVE_RETURN_VIA_PARAM,
+  STATE_PARAM,
+} from '../core/oauth-manager';
+import { OAuthError } from '../core/errors';
+import { useOAuthManager } from './hooks';
 
 export interface NativeCallbackProps {
   /** Despia deeplink scheme (e.g., 'myapp') */
@@ -15,11 +24,11 @@ export interface NativeCallbackProps {
   /** Path to redirect to after callback (in WebView, not browser) */
   exitPath?: string;
   
-  /** OAuth provider instance */
-  provider: OAuthProvider;
+  /** Optional: OAuth provider instance (defaults to the provider configured on OAuthProvider) */
+  provider?: OAuthProvider;
   
-  /** Optional: Custom error handler */
-  onError?: (error: Error) => void;
+  /** Optional: Custom error handler (branch on `error.code`) */
+  onError?: (error: OAuthError) => void;
   
   /** Optional: Custom success handler */
   onSuccess?: (result: AuthResult) => void;
@@ -28,7 +37,7 @@ export interface NativeCallbackProps {
   loadingComponent?: React.ReactNode;
   
   /** Optional: Error component */
-  errorComponent?: (error: string) => React.ReactNode;
+  errorComponent?: (error: string, oauthError: OAuthError) => React.ReactNode;
 }
 
 /**
@@ -45,76 +54,86 @@ export function NativeCallback({
   errorComponent,
 }: NativeCallbackProps) {
   const [searchParams] = useSearchParams();
-  const [error, setError] = useState<string | null>(null);
+  const manager = useOAuthManager();
+  const [error, setError] = useState<OAuthError | null>(null);
   const [isProcessing, setIsProcessing] = useState(true);
+  // States are single-use: process each callback URL once (StrictMode runs effects twice)
+  const handledRef = useRef<string | null>(null);
 
   useEffect(() => {
-    const handleCallback = async () => {
-      try {
-        setIsProcessing(true);
+    const callbackKey = searchParams.toString() + (typeof window !== 'undefined' ? window.location.hash : '');
+    if (handledRef.current === callbackKey) {
+      return;
+    }
+    handledRef.current = callbackKey;
 
-        // Extract all params from URL (query + hash)
-        const params: Record<string, string> = {};
-        
-        // Query params
-        searchParams.forEach((value, key) => {
+    const handleCallback = async () => {
+      // Extract all params from URL (query + hash)
+      const params: Record<string, string> = {};
+      
+      // Query params
+      searchParams.forEach((value, key) => {
+        params[key] = value;
+      });
+
+      // Hash params (many OAuth providers use hash for implicit flow)
+      // Extract access_token, token_type, expires_in, etc. from hash
+      if (typeof window !== 'undefined' && window.location.hash) {
+        const hashParams = new URLSearchParams(window.location.hash.substring(1));
+        hashParams.forEach((value, key) => {
           params[key] = value;
         });
+      }
 
-        // Hash params (many OAuth providers use hash for implicit flow)
-        // Extract access_token, token_type, expires_in, etc. from hash
-        if (typeof window !== 'undefined' && window.location.hash) {
-          const hashParams = new URLSearchParams(window.location.hash.substring(1));
-          hashParams.forEach((value, key) => {
-            params[key] = value;
+      try {
+        setIsProcessing(true);
+
+        // Opened by signIn in the WebView: start the flow here, so state and
+        // PKCE verifier live in the browser session that receives the callback
+        if (params[NATIVE_START_PARAM]) {
+          await manager.startNativeFlow(params[NATIVE_START_PARAM], {
+            parentState: params[NATIVE_FLOW_PARAM],
+            returnTo: params[NATIVE_RETURN_TO_PARAM],
+            handoffChallenge: params[NATIVE_HANDOFF_PARAM],
+            returnVia: params[NATIVE_RETURN_VIA_PARAM],
           });
+          return;
         }
 
-        // Handle callback with provider
-        const result = await provider.handleCallback(params);
-
-        // Set session
-        await provider.setSession({
-          access_token: result.access_token,
-          refresh_token: result.refresh_token,
-          expires_in: result.expires_in,
-        });
+        // Verify state, handle callback with provider and set session
+        const { result, flow } = await manager.completeCallback(params, provider);
 
         // Call success handler
         onSuccess?.(result);
 
         // Build deeplink to close browser session
-        // Format: myapp://oauth/{exitPath}?tokens
-        const deeplinkParams: Record<string, string> = {
-          access_token: result.access_token,
-        };
-
-        if (result.refresh_token) {
-          deeplinkParams.refresh_token = result.refresh_token;
-        }
+        // Format: myapp://oauth/{exitPath}?{tokens or handoff_code}&state={WebView flow state}&return_to={path}
+        const deeplinkParams = await manager.createNativeReturnParams(result, flow);
 
         // Remove leading slash from exitPath if present
         const path = exitPath.replace(/^\//, '');
         
-        const deeplink = createDespiaDeeplink(path, deeplinkParams, deeplinkScheme);
+        const deeplink = manager.createNativeReturnUrl(path, deeplinkParams, flow.state, deeplinkScheme);
 
         // Redirect to deeplink - this CLOSES the browser session
         if (typeof window !== 'undefined') {
           window.location.href = deeplink;
         }
       } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Authentication failed';
-        setError(errorMessage);
+        const oauthError = OAuthError.from(err, 'invalid_response');
+        setError(oauthError);
         setIsProcessing(false);
         
         // Call error handler
-        onError?.(err instanceof Error ? err : new Error(errorMessage));
+        onError?.(oauthError);
 
-        // Redirect with error
+        // Redirect with error (error, error_description, error_uri, error_code, state)
         const path = exitPath.replace(/^\//, '');
-        const errorDeeplink = createDespiaDeeplink(
+        const flowState = params[STATE_PARAM] || params.state;
+        const errorDeeplink = manager.createNativeReturnUrl(
           path,
-          { error: errorMessage },
+          manager.createNativeErrorParams(oauthError, flowState),
+          flowState,
           deeplinkScheme
         );
         
@@ -125,12 +144,12 @@ export function NativeCallback({
     };
 
     handleCallback();
-  }, [searchParams, provider, deeplinkScheme, exitPath, onError, onSuccess]);
+  }, [searchParams, manager, provider, deeplinkScheme, exitPath, onError, onSuccess]);
 
   // Show error if present
   if (error) {
     if (errorComponent) {
-      return <>{errorComponent(error)}</>;
+      return <>{errorComponent(error.message, error)}</>;
     }
     
     return (
@@ -144,7 +163,7 @@ export function NativeCallback({
       }}>
         <div>
           <h2>Sign in failed</h2>
-          <p>{error}</p>
+          <p>{error.message}</p>
         </div>
       </div>
     );
@@ -0,0 +1,69 @@
+/**
+ * OAuth Kit - NativeLogout Component
+ * Closes the browser session after a native global sign out (use on `/native-logout` route)
+ */
+
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useOAuthManager } from './hooks';
+
+export interface NativeLogoutProps {
+  /** Despia deeplink scheme (e.g., 'myapp') */
+  deeplinkScheme: string;
+
+  /** Path to open in the WebView after logout (default: '/') */
+  exitPath?: string;
+
+  /** Optional: Loading component */
+  loadingComponent?: React.ReactNode;
+}
+
+/**
+ * NativeLogout Component
+ * The provider redirects here (post_logout_redirect_uri) once it ended its session,
+ * the deeplink back to the app closes the browser session.
+ * The WebView already cleared its session when signOut({ global: true }) was called.
+ */
+export function NativeLogout({
+  deeplinkScheme,
+  exitPath = '/',
+  loadingComponent,
+}: NativeLogoutProps) {
+  const [searchParams] = useSearchParams();
+  const manager = useOAuthManager();
+  // Redirect once (StrictMode runs effects twice)
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (handledRef.current) {
+      return;
+    }
+    handledRef.current = true;
+
+    const params: Record<string, string> = {};
+    searchParams.forEach((value, key) => {
+      params[key] = value;
+    });
+
+    // Redirect to deeplink - this CLOSES the browser session
+    const deeplink = manager.createNativeLogoutReturnUrl(exitPath.replace(/^\//, ''), params, deeplinkScheme);
+    if (typeof window !== 'undefined') {
+      window.location.href = deeplink;
+    }
+  }, [searchParams, manager, deeplinkScheme, exitPath]);
+
+  if (loadingComponent) {
+    return <>{loadingComponent}</>;
+  }
+
+  return (
+    <div style={{ 
+      display: 'flex', 
+      justifyContent: 'center', 
+      alignItems: 'center', 
+      height: '100vh' 
+    }}>
+      <div>Signing out...</div>
+    </div>
+  );
+}
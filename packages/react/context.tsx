@@ -2,13 +2,15 @@
  * OAuth Kit - React Context
  */
 
-import React, { createContext, useContext, useMemo } from 'react';
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
 import type { OAuthKitConfig } from '../core/types';
 import { OAuthManager } from '../core/oauth-manager';
+import { createAuthStore, type AuthStore } from './store';
 
 interface OAuthContextValue {
   manager: OAuthManager;
   config: OAuthKitConfig;
+  store: AuthStore;
 }
 
 const OAuthContext = createContext<OAuthContextValue | null>(null);
@@ -20,17 +22,32 @@ export interface OAuthProviderProps {
 
 /**
  * OAuth Provider Component
- * Wraps app and provides OAuth manager to children
+ * Wraps app and provides OAuth manager and the shared session store to children
  */
 export function OAuthProvider({ config, children }: OAuthProviderProps) {
   const manager = useMemo(() => {
     return new OAuthManager(config);
-  }, [config.appUrl, config.deeplinkScheme, config.provider]);
+  }, [config.appUrl, config.deeplinkScheme, config.provider, config.providers]);
+
+  // One session store for every hook below this provider
+  const store = useMemo(() => createAuthStore(manager), [manager]);
+
+  // Follow auth events, refresh sessions ahead of expiry and on app resume
+  // (effects clean up, so StrictMode's mount/unmount/mount is safe)
+  useEffect(() => {
+    const disconnect = store.connect();
+    manager.startAutoRefresh();
+    return () => {
+      manager.stopAutoRefresh();
+      disconnect();
+    };
+  }, [manager, store]);
 
   const value = useMemo(() => ({
     manager,
     config,
-  }), [manager, config]);
+    store,
+  }), [manager, config, store]);
 
   return (
     <OAuthContext.Provider value={value}>
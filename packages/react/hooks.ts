@@ -2,9 +2,11 @@
  * OAuth Kit - React Hooks
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import type { Session } from '../core/types';
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Session, User, SignInOptions, SignOutOptions } from '../core/types';
 import { useOAuthContext } from './context';
+import type { AuthSnapshot } from './store';
+import { OAuthError } from '../core/errors';
 
 /**
  * Hook to get OAuth manager from context
@@ -14,64 +16,51 @@ export function useOAuthManager() {
   return manager;
 }
 
+/**
+ * Hook to read a slice of the shared auth state
+ * Components only re-render when the selected value changes.
+ *
+ * @example
+ * const email = useAuthState((state) => state.session?.user.email);
+ */
+export function useAuthState<T>(selector: (state: AuthSnapshot) => T): T {
+  const { store } = useOAuthContext();
+  const getSelection = () => selector(store.getSnapshot());
+  return useSyncExternalStore(store.subscribe, getSelection, getSelection);
+}
+
 /**
  * Hook to get OAuth session state and methods
  */
 export function useOAuth() {
-  const { manager } = useOAuthContext();
-  const [session, setSession] = useState<Session | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<Error | null>(null);
+  const { manager, store } = useOAuthContext();
+  const { session, isLoading, error } = useAuthState((state) => state);
 
-  // Load initial session
-  useEffect(() => {
-    manager.getSession().then((sess) => {
-      setSession(sess);
-      setIsLoading(false);
-    }).catch((err) => {
-      setError(err instanceof Error ? err : new Error('Failed to load session'));
-      setIsLoading(false);
-    });
-  }, [manager]);
-
-  const signIn = useCallback(async (providerName: string) => {
-    setIsLoading(true);
-    setError(null);
+  const signIn = useCallback(async (providerName: string, options?: SignInOptions) => {
+    store.setState({ isLoading: true, error: null });
     try {
-      await manager.signIn(providerName);
-      // Loading persists until callback completes
+      // Redirects: loading persists until callback completes
+      // Popups: resolve with the result once signed in
+      return await manager.signIn(providerName, options);
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Sign in failed'));
-      setIsLoading(false);
+      store.setState({
+        isLoading: false,
+        error: OAuthError.from(err, 'invalid_response'),
+      });
     }
-  }, [manager]);
+  }, [manager, store]);
 
-  const signOut = useCallback(async () => {
-    setIsLoading(true);
-    setError(null);
+  const signOut = useCallback(async (options?: SignOutOptions) => {
+    store.setState({ isLoading: true, error: null });
     try {
-      await manager.signOut();
-      setSession(null);
+      // global: may leave the page for the provider's logout URL
+      await manager.signOut(options);
     } catch (err) {
-      setError(err instanceof Error ? err : new Error('Sign out failed'));
+      store.setState({ error: OAuthError.from(err, 'network_error') });
     } finally {
-      setIsLoading(false);
+      store.setState({ isLoading: false });
     }
-  }, [manager]);
-
-  // Poll for session changes (simple approach - providers can implement onAuthStateChange)
-  useEffect(() => {
-    const interval = setInterval(async () => {
-      try {
-        const sess = await manager.getSession();
-        setSession(sess);
-      } catch {
-        // Ignore errors
-      }
-    }, 1000);
-
-    return () => clearInterval(interval);
-  }, [manager]);
+  }, [manager, store]);
 
   return {
     session,
@@ -86,7 +75,27 @@ export function useOAuth() {
 /**
  * Hook to get only session state
  */
-export function useOAuthSession() {
-  const { session } = useOAuth();
-  return session;
+export function useOAuthSession(): Session | null {
+  return useAuthState((state) => state.session);
+}
+
+/**
+ * Hook to get only the signed-in user
+ */
+export function useUser(): User | null {
+  return useAuthState((state) => state.session?.user ?? null);
+}
+
+/**
+ * Hook to get only the current access token
+ */
+export function useAccessToken(): string | null {
+  return useAuthState((state) => state.session?.access_token ?? null);
+}
+
+/**
+ * Hook to get only whether a user is signed in
+ */
+export function useIsAuthenticated(): boolean {
+  return useAuthState((state) => !!state.session);
 }
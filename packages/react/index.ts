@@ -5,4 +5,6 @@
 export * from './context';
 export * from './hooks';
 export * from './NativeCallback';
+export * from './NativeLogout';
 export * from './Callback';
+export * from './store';
@@ -0,0 +1,86 @@
+/**
+ * OAuth Kit - Auth Store
+ * Single session store shared by every hook under one OAuthProvider
+ * (read through useSyncExternalStore)
+ */
+
+import type { Session } from '../core/types';
+import type { OAuthManager } from '../core/oauth-manager';
+import { OAuthError } from '../core/errors';
+
+/**
+ * Auth state snapshot (immutable - replaced on every change)
+ */
+export interface AuthSnapshot {
+  session: Session | null;
+  isLoading: boolean;
+  error: OAuthError | null;
+}
+
+export interface AuthStore {
+  /** Current snapshot (same reference until something changes) */
+  getSnapshot(): AuthSnapshot;
+
+  /** Subscribe to snapshot changes */
+  subscribe(onChange: () => void): () => void;
+
+  /** Merge a partial update into the snapshot */
+  setState(update: Partial<AuthSnapshot>): void;
+
+  /** Follow the manager's auth events, returns disconnect function */
+  connect(): () => void;
+}
+
+/**
+ * Create the auth store for a manager
+ */
+export function createAuthStore(manager: OAuthManager): AuthStore {
+  let snapshot: AuthSnapshot = {
+    session: null,
+    isLoading: true,
+    error: null,
+  };
+  const subscribers = new Set<() => void>();
+
+  const setState = (update: Partial<AuthSnapshot>) => {
+    const next = { ...snapshot, ...update };
+    if (
+      next.session === snapshot.session &&
+      next.isLoading === snapshot.isLoading &&
+      next.error === snapshot.error
+    ) {
+      return;
+    }
+    snapshot = next;
+    subscribers.forEach((onChange) => onChange());
+  };
+
+  return {
+    getSnapshot: () => snapshot,
+
+    subscribe(onChange) {
+      subscribers.add(onChange);
+      return () => {
+        subscribers.delete(onChange);
+      };
+    },
+
+    setState,
+
+    connect() {
+      return manager.onAuthStateChange((event, session) => {
+        if (event === 'INITIAL_SESSION') {
+          setState({ session, isLoading: false });
+        } else if (event === 'SIGNED_IN') {
+          setState({ session, isLoading: false, error: null });
+        } else if (event === 'SIGN_IN_CANCELLED') {
+          setState({ session, isLoading: false, error: new OAuthError('cancelled') });
+        } else if (event === 'SESSION_EXPIRED') {
+          setState({ session, error: new OAuthError('expired_session') });
+        } else {
+          setState({ session });
+        }
+      });
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * OAuth Kit - Cookies
+ * Minimal Cookie / Set-Cookie handling for the BFF session cookie
+ */
+
+export interface CookieOptions {
+  maxAge?: number;
+  secure?: boolean;
+  sameSite?: 'lax' | 'strict' | 'none';
+  domain?: string;
+  path?: string;
+}
+
+/**
+ * Read one cookie from a Cookie header
+ */
+export function readCookie(header: string | undefined, name: string): string | null {
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const separator = part.indexOf('=');
+    if (separator > 0 && part.substring(0, separator).trim() === name) {
+      try {
+        return decodeURIComponent(part.substring(separator + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Build an httpOnly Set-Cookie value (maxAge 0 deletes the cookie)
+ */
+export function serializeCookie(name: string, value: string, options: CookieOptions = {}): string {
+  const parts = [`${name}=${encodeURIComponent(value)}`, `Path=${options.path || '/'}`, 'HttpOnly'];
+
+  if (options.maxAge !== undefined) {
+    parts.push(`Max-Age=${options.maxAge}`);
+  }
+  if (options.domain) {
+    parts.push(`Domain=${options.domain}`);
+  }
+  // SameSite=None is only accepted on Secure cookies
+  if (options.secure !== false || options.sameSite === 'none') {
+    parts.push('Secure');
+  }
+
+  const sameSite = options.sameSite || 'lax';
+  parts.push(`SameSite=${sameSite.charAt(0).toUpperCase()}${sameSite.slice(1)}`);
+
+  return parts.join('; ');
+}
@@ -0,0 +1,76 @@
+/**
+ * OAuth Kit - Express Adapter
+ * app.use('/oauth', express.json(), createExpressHandler(server))
+ */
+
+import type { ServerRequest, ServerResponse } from './types';
+import type { OAuthServer } from './oauth-server';
+
+// The parts of Express's req/res the adapter uses - keeps express out of the dependencies
+interface ExpressRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+  body?: unknown;
+}
+
+interface ExpressResponse {
+  setHeader(name: string, value: string | string[]): unknown;
+  status(code: number): unknown;
+  json(body: unknown): unknown;
+  end(): unknown;
+}
+
+type NextFunction = (error?: unknown) => void;
+
+/**
+ * Express middleware for an OAuthServer (unknown routes fall through to next())
+ * Needs a body parser (express.json() / express.urlencoded()) in front of it.
+ */
+export function createExpressHandler(server: OAuthServer) {
+  return (req: ExpressRequest, res: ExpressResponse, next: NextFunction) => {
+    server
+      .handle(toServerRequest(req))
+      .then((response) => {
+        if (!response) {
+          next();
+          return;
+        }
+        sendResponse(res, response);
+      })
+      .catch(next);
+  };
+}
+
+function toServerRequest(req: ExpressRequest): ServerRequest {
+  const headers: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    headers[name.toLowerCase()] = Array.isArray(value) ? value.join(', ') : value;
+  }
+
+  return {
+    method: req.method,
+    // Relative to the mount point
+    path: req.path,
+    headers,
+    body: req.body && typeof req.body === 'object' ? (req.body as Record<string, any>) : undefined,
+  };
+}
+
+function sendResponse(res: ExpressResponse, response: ServerResponse): void {
+  // Token responses must not be cached (RFC 6749 5.1)
+  res.setHeader('Cache-Control', 'no-store');
+  for (const [name, value] of Object.entries(response.headers || {})) {
+    res.setHeader(name, value);
+  }
+  if (response.cookies?.length) {
+    res.setHeader('Set-Cookie', response.cookies);
+  }
+
+  res.status(response.status);
+  if (response.body === undefined) {
+    res.end();
+  } else {
+    res.json(response.body);
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * OAuth Kit - Fetch API Adapter
+ * For runtimes built on Request/Response (Cloudflare Workers, Deno, Bun, Next.js route handlers, ...)
+ */
+
+import type { ServerRequest, ServerResponse } from './types';
+import type { OAuthServer } from './oauth-server';
+
+export interface FetchHandlerOptions {
+  /** Path the handler is mounted at (e.g. '/oauth') */
+  basePath?: string;
+}
+
+/**
+ * Fetch handler for an OAuthServer (unknown routes get a 404)
+ */
+export function createFetchHandler(server: OAuthServer, options: FetchHandlerOptions = {}) {
+  const basePath = (options.basePath || '').replace(/\/$/, '');
+
+  return async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    if (basePath && url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return toResponse({ status: 404, body: { error: 'not_found' } });
+    }
+
+    const response = await server.handle(await toServerRequest(request, url.pathname.substring(basePath.length)));
+    return toResponse(response || { status: 404, body: { error: 'not_found' } });
+  };
+}
+
+async function toServerRequest(request: Request, path: string): Promise<ServerRequest> {
+  const headers: Record<string, string | undefined> = {};
+  request.headers.forEach((value, name) => {
+    headers[name.toLowerCase()] = value;
+  });
+
+  return {
+    method: request.method,
+    path: path || '/',
+    headers,
+    body: await readBody(request),
+  };
+}
+
+async function readBody(request: Request): Promise<Record<string, any> | undefined> {
+  if (request.method === 'GET' || request.method === 'HEAD') {
+    return undefined;
+  }
+
+  const contentType = request.headers.get('content-type') || '';
+  try {
+    if (contentType.includes('application/json')) {
+      return (await request.json()) as Record<string, any>;
+    }
+    if (contentType.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(await request.text()));
+    }
+  } catch {
+    // Malformed body - handlers report the missing fields
+  }
+  return undefined;
+}
+
+function toResponse(response: ServerResponse): Response {
+  const headers = new Headers(response.headers);
+  // Token responses must not be cached (RFC 6749 5.1)
+  headers.set('Cache-Control', 'no-store');
+  for (const cookie of response.cookies || []) {
+    headers.append('Set-Cookie', cookie);
+  }
+
+  if (response.body === undefined) {
+    return new Response(null, { status: response.status, headers });
+  }
+
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(response.body), { status: response.status, headers });
+}
@@ -0,0 +1,11 @@
+/**
+ * OAuth Kit - Server Exports
+ * Node only - don't import this from browser code
+ */
+
+export * from './types';
+export * from './oauth-server';
+export * from './stores';
+export * from './cookies';
+export * from './express';
+export * from './fetch';
@@ -0,0 +1,533 @@
+/**
+ * OAuth Kit - OAuth Server
+ * Framework-neutral handlers for backend token exchange, refresh, revocation,
+ * native handoff and backend-for-frontend (BFF) sessions
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { HandoffStore, User } from '../core/types';
+import type {
+  ServerRequest,
+  ServerResponse,
+  UpstreamProvider,
+  OAuthServerConfig,
+  BffOptions,
+  ServerSession,
+  ServerSessionStore,
+  ServerTokens,
+  TokenResponse,
+} from './types';
+import { OAuthError } from '../core/errors';
+import { decodeJwt, userFromClaims } from '../core/oidc';
+import { MemoryHandoffStore, MemoryServerSessionStore } from './stores';
+import { readCookie, serializeCookie } from './cookies';
+
+/** `token_type` of BFF exchange responses - `access_token` is then a session transfer code */
+export const BFF_TOKEN_TYPE = 'bff';
+
+// Transfer codes move a BFF session to another cookie jar (browser session -> WebView)
+const TRANSFER_PREFIX = 'transfer:';
+const TRANSFER_TTL = 60;
+
+// Refresh upstream tokens this long before they expire (ms)
+const REFRESH_LEEWAY = 30 * 1000;
+
+const DEFAULT_BFF_MAX_AGE = 30 * 24 * 60 * 60;
+
+/**
+ * OAuth Server
+ * Mount with createExpressHandler() or createFetchHandler(), or call handle() directly
+ *
+ * Routes (relative to the mount point):
+ * - POST /exchange        code -> tokens (BFF: session cookie + transfer code)
+ * - POST /refresh         refresh token -> tokens
+ * - POST /revoke          revoke a token (BFF: the session's tokens, and sign out)
+ * - POST /handoff         store a native sign-in result, get a one-time code
+ * - POST /handoff/redeem  one-time code -> sign-in result
+ * - GET  /session         BFF session user
+ * - POST /session/claim   BFF transfer code + handoff verifier -> session cookie
+ */
+export class OAuthServer {
+  private providers: Record<string, UpstreamProvider>;
+  private handoffStore: HandoffStore;
+  private bff: BffOptions | null;
+  private sessionStore: ServerSessionStore;
+
+  constructor(config: OAuthServerConfig) {
+    this.providers = config.providers;
+    this.handoffStore = config.handoffStore || new MemoryHandoffStore();
+    this.bff = config.bff || null;
+    this.sessionStore = config.bff?.sessionStore || new MemoryServerSessionStore();
+  }
+
+  /**
+   * Route a request to its handler
+   * @returns null for routes this server doesn't handle
+   */
+  async handle(request: ServerRequest): Promise<ServerResponse | null> {
+    const route = `${request.method.toUpperCase()} ${request.path.replace(/\/$/, '')}`;
+
+    try {
+      switch (route) {
+        case 'POST /exchange':
+          return await this.exchange(request);
+        case 'POST /refresh':
+          return await this.refresh(request);
+        case 'POST /revoke':
+          return await this.revoke(request);
+        case 'POST /handoff':
+          return await this.createHandoff(request);
+        case 'POST /handoff/redeem':
+          return await this.redeemHandoff(request);
+        case 'GET /session':
+          return await this.session(request);
+        case 'POST /session/claim':
+          return await this.claimSession(request);
+        default:
+          return null;
+      }
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  /**
+   * Exchange an authorization code with the upstream provider
+   */
+  async exchange(request: ServerRequest): Promise<ServerResponse> {
+    const body = request.body || {};
+    const upstreamName = this.resolveProviderName(body.provider);
+    if (!upstreamName) {
+      return badRequest('invalid_request', 'Unknown provider');
+    }
+    const upstream = this.providers[upstreamName];
+
+    if (!body.code) {
+      return badRequest('invalid_request', 'Missing code');
+    }
+    if (upstream.redirectUris && !upstream.redirectUris.includes(body.redirect_uri)) {
+      return badRequest('invalid_request', 'redirect_uri is not allowed');
+    }
+
+    const params: Record<string, string> = {
+      grant_type: 'authorization_code',
+      code: body.code,
+      redirect_uri: body.redirect_uri || '',
+    };
+    if (body.code_verifier) {
+      params.code_verifier = body.code_verifier;
+    }
+
+    const tokens = await this.requestToken(upstream, params, 'Token exchange failed');
+    const user = await this.resolveUser(upstream, tokens);
+
+    if (!this.bff) {
+      const response: TokenResponse = { ...tokens, user };
+      return json(200, response);
+    }
+
+    // BFF: tokens stay here, the browser gets a cookie and a one-time transfer code
+    const session: ServerSession = {
+      id: randomBytes(32).toString('base64url'),
+      provider: upstreamName,
+      tokens: toServerTokens(tokens),
+      user,
+      createdAt: Date.now(),
+    };
+    await this.sessionStore.set(session.id, session, this.bffMaxAge());
+    // Native sign in: only the WebView holding the handoff secret can claim it
+    const challenge = typeof body.handoff_challenge === 'string' ? body.handoff_challenge : undefined;
+    const transferCode = await this.createTransfer(session, challenge);
+
+    return {
+      status: 200,
+      cookies: [this.sessionCookie(session.id)],
+      body: { access_token: transferCode, token_type: BFF_TOKEN_TYPE, user },
+    };
+  }
+
+  /**
+   * Refresh tokens with the upstream provider (not available in BFF mode)
+   */
+  async refresh(request: ServerRequest): Promise<ServerResponse> {
+    if (this.bff) {
+      return badRequest('invalid_request', 'Tokens are kept server-side in BFF mode');
+    }
+
+    const body = request.body || {};
+    const upstreamName = this.resolveProviderName(body.provider);
+    if (!upstreamName) {
+      return badRequest('invalid_request', 'Unknown provider');
+    }
+    if (!body.refresh_token) {
+      return badRequest('invalid_request', 'Missing refresh_token');
+    }
+
+    const tokens = await this.requestToken(
+      this.providers[upstreamName],
+      { grant_type: 'refresh_token', refresh_token: body.refresh_token },
+      'Token refresh failed'
+    );
+    return json(200, tokens);
+  }
+
+  /**
+   * Revoke a token (RFC 7009) - in BFF mode, the session's tokens, then end the session
+   */
+  async revoke(request: ServerRequest): Promise<ServerResponse> {
+    if (this.bff) {
+      const session = await this.readSession(request);
+      if (session) {
+        await this.sessionStore.delete(session.id);
+        const upstream = this.providers[session.provider];
+        const { access_token, refresh_token } = session.tokens;
+        // Best effort - the session is gone either way
+        await this.revokeUpstream(
+          upstream,
+          refresh_token || access_token,
+          refresh_token ? 'refresh_token' : 'access_token'
+        ).catch(() => false);
+      }
+      return { status: 200, cookies: [this.sessionCookie('', 0)], body: { revoked: !!session } };
+    }
+
+    const body = request.body || {};
+    const upstreamName = this.resolveProviderName(body.provider);
+    if (!upstreamName) {
+      return badRequest('invalid_request', 'Unknown provider');
+    }
+    if (!body.token) {
+      return badRequest('invalid_request', 'Missing token');
+    }
+
+    const revoked = await this.revokeUpstream(this.providers[upstreamName], body.token, body.token_type_hint);
+    return json(200, { revoked });
+  }
+
+  /**
+   * Store a native sign-in result under a one-time code (RemoteHandoffStore protocol)
+   */
+  async createHandoff(request: ServerRequest): Promise<ServerResponse> {
+    const { result, state, challenge } = request.body || {};
+    if (!result?.access_token || !state || !challenge) {
+      return badRequest('invalid_request', 'Missing result, state or challenge');
+    }
+
+    const code = await this.handoffStore.create(result, { state, challenge });
+    return json(200, { code });
+  }
+
+  /**
+   * Redeem a handoff code (RemoteHandoffStore protocol)
+   */
+  async redeemHandoff(request: ServerRequest): Promise<ServerResponse> {
+    const { code, state, verifier } = request.body || {};
+    if (!code || !state || !verifier) {
+      return badRequest('invalid_request', 'Missing code, state or verifier');
+    }
+
+    const result = await this.handoffStore.redeem(code, { state, verifier });
+    return json(200, { result });
+  }
+
+  /**
+   * Current BFF session's user (no tokens)
+   */
+  async session(request: ServerRequest): Promise<ServerResponse> {
+    const session = this.bff ? await this.getSession(request) : null;
+    if (!session) {
+      return json(401, { error: 'invalid_token', error_description: 'No session' });
+    }
+
+    return json(200, {
+      token_type: BFF_TOKEN_TYPE,
+      user: session.user,
+      provider: session.provider,
+    });
+  }
+
+  /**
+   * Move the session of a transfer code to this cookie jar (the WebView after a native sign in)
+   * The code is bound to the WebView's handoff secret, like handoff codes: claiming it
+   * takes the matching `verifier`. The claiming cookie jar gets a session id of its own.
+   */
+  async claimSession(request: ServerRequest): Promise<ServerResponse> {
+    if (!this.bff) {
+      return badRequest('invalid_request', 'BFF mode is not enabled');
+    }
+
+    const { code, verifier } = request.body || {};
+    const transfer = code ? await this.sessionStore.get(`${TRANSFER_PREFIX}${code}`) : null;
+
+    // Same cookie jar that signed in (web, or the browser session on native):
+    // leave the code for the WebView
+    const current = await this.readSession(request);
+    if (transfer && current?.id === transfer.id) {
+      return json(200, { token_type: BFF_TOKEN_TYPE, user: current.user });
+    }
+
+    if (code) {
+      await this.sessionStore.delete(`${TRANSFER_PREFIX}${code}`);
+    }
+
+    const session = transfer ? await this.sessionStore.get(transfer.id) : null;
+    if (!transfer || !session) {
+      return badRequest('invalid_grant', 'Invalid or expired transfer code');
+    }
+
+    // Without a binding anyone holding the code could plant the session in their browser
+    if (!transfer.transferChallenge) {
+      return badRequest(
+        'invalid_grant',
+        'Transfer code is not bound to a native sign in - configure a handoffStore on the client'
+      );
+    }
+    const challenge = createHash('sha256').update(String(verifier || '')).digest('base64url');
+    if (!verifier || challenge !== transfer.transferChallenge) {
+      return badRequest('invalid_grant', 'Transfer code does not belong to this sign in');
+    }
+
+    // Moved, not shared: the browser session's id stops working
+    const claimed: ServerSession = { ...session, id: randomBytes(32).toString('base64url') };
+    await this.sessionStore.set(claimed.id, claimed, this.bffMaxAge());
+    await this.sessionStore.delete(session.id);
+
+    return {
+      status: 200,
+      cookies: [this.sessionCookie(claimed.id)],
+      body: { token_type: BFF_TOKEN_TYPE, user: claimed.user },
+    };
+  }
+
+  /**
+   * BFF session for a request, with upstream tokens refreshed when they're about to expire
+   * Use it in your own API routes to call upstream APIs on the user's behalf.
+   */
+  async getSession(request: ServerRequest): Promise<ServerSession | null> {
+    const session = await this.readSession(request);
+    if (!session) {
+      return null;
+    }
+
+    const { expires_at, refresh_token } = session.tokens;
+    const upstream = this.providers[session.provider];
+    if (!expires_at || expires_at - REFRESH_LEEWAY > Date.now() || !refresh_token || !upstream) {
+      return session;
+    }
+
+    try {
+      const tokens = await this.requestToken(
+        upstream,
+        { grant_type: 'refresh_token', refresh_token },
+        'Token refresh failed'
+      );
+      const refreshed: ServerSession = {
+        ...session,
+        // Keep the old refresh token unless the server rotated it
+        tokens: toServerTokens({ ...tokens, refresh_token: tokens.refresh_token || refresh_token }),
+      };
+      await this.sessionStore.set(session.id, refreshed, this.bffMaxAge());
+      return refreshed;
+    } catch (error) {
+      if (error instanceof OAuthError && error.error === 'invalid_grant') {
+        await this.sessionStore.delete(session.id);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async readSession(request: ServerRequest): Promise<ServerSession | null> {
+    const id = readCookie(request.headers.cookie, this.cookieName());
+    // Transfer entries live in the same store - never accept one as a session id
+    if (!id || id.startsWith(TRANSFER_PREFIX)) {
+      return null;
+    }
+    return this.sessionStore.get(id);
+  }
+
+  private async createTransfer(session: ServerSession, challenge?: string): Promise<string> {
+    const code = randomBytes(32).toString('base64url');
+    await this.sessionStore.set(`${TRANSFER_PREFIX}${code}`, { ...session, transferChallenge: challenge }, TRANSFER_TTL);
+    return code;
+  }
+
+  /**
+   * Provider by name, or the only configured one when no name is given
+   */
+  private resolveProviderName(name: unknown): string | null {
+    if (typeof name === 'string' && name) {
+      return Object.prototype.hasOwnProperty.call(this.providers, name) ? name : null;
+    }
+    const names = Object.keys(this.providers);
+    return names.length === 1 ? names[0] : null;
+  }
+
+  /**
+   * POST to the upstream token endpoint with the client credentials
+   */
+  private async requestToken(
+    upstream: UpstreamProvider,
+    params: Record<string, string>,
+    failureMessage: string
+  ): Promise<TokenResponse> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // GitHub answers form-encoded without it
+      'Accept': 'application/json',
+    };
+    const body = new URLSearchParams(params);
+    authenticateClient(upstream, body, headers);
+
+    const response = await fetch(upstream.tokenEndpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'token_exchange_failed', failureMessage);
+    }
+
+    const data = (await response.json()) as Record<string, unknown>;
+    // Some providers (GitHub) report errors with a 200
+    if (typeof data.error === 'string') {
+      const errorDescription = typeof data.error_description === 'string' ? data.error_description : undefined;
+      throw new OAuthError('token_exchange_failed', `${failureMessage}: ${errorDescription || data.error}`, {
+        // GitHub's dead refresh token is RFC 6749's invalid_grant
+        error: data.error === 'bad_refresh_token' ? 'invalid_grant' : data.error,
+        errorDescription,
+      });
+    }
+    if (typeof data.access_token !== 'string' || !data.access_token) {
+      throw new OAuthError('invalid_response', 'Invalid token response: missing access_token');
+    }
+
+    return {
+      access_token: data.access_token,
+      token_type: optionalString(data.token_type),
+      refresh_token: optionalString(data.refresh_token),
+      // Some providers send expires_in as a string
+      expires_in: data.expires_in ? Number(data.expires_in) : undefined,
+      id_token: optionalString(data.id_token),
+      scope: optionalString(data.scope),
+    };
+  }
+
+  /**
+   * @returns Whether the upstream provider has a revocation endpoint
+   */
+  private async revokeUpstream(upstream: UpstreamProvider, token: string, hint?: string): Promise<boolean> {
+    if (!upstream.revocationEndpoint) {
+      return false;
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+    const body = new URLSearchParams({ token });
+    if (hint) {
+      body.set('token_type_hint', hint);
+    }
+    authenticateClient(upstream, body, headers);
+
+    const response = await fetch(upstream.revocationEndpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      throw await OAuthError.fromResponse(response, 'invalid_response', 'Token revocation failed');
+    }
+    return true;
+  }
+
+  /**
+   * User from the userinfo endpoint, or the ID token's claims
+   * The ID token came straight from the token endpoint over TLS (OIDC Core 3.1.3.7),
+   * so decoding it is enough here.
+   */
+  private async resolveUser(upstream: UpstreamProvider, tokens: TokenResponse): Promise<User | undefined> {
+    if (upstream.userinfoEndpoint) {
+      const response = await fetch(upstream.userinfoEndpoint, {
+        headers: { 'Authorization': `Bearer ${tokens.access_token}`, 'Accept': 'application/json' },
+      });
+      if (!response.ok) {
+        throw await OAuthError.fromResponse(response, 'invalid_response', 'Failed to fetch user info');
+      }
+
+      const userinfo = await response.json();
+      if (upstream.mapUser) {
+        return upstream.mapUser(userinfo);
+      }
+      return typeof userinfo.sub === 'string' ? userFromClaims(userinfo) : { ...userinfo, id: String(userinfo.id) };
+    }
+
+    if (tokens.id_token) {
+      return userFromClaims(decodeJwt(tokens.id_token));
+    }
+    return undefined;
+  }
+
+  private sessionCookie(value: string, maxAge: number = this.bffMaxAge()): string {
+    return serializeCookie(this.cookieName(), value, {
+      maxAge,
+      secure: this.bff?.secure,
+      sameSite: this.bff?.sameSite,
+      domain: this.bff?.domain,
+      path: this.bff?.path,
+    });
+  }
+
+  private cookieName(): string {
+    return this.bff?.cookieName || 'oauthkit_session';
+  }
+
+  private bffMaxAge(): number {
+    return this.bff?.maxAge ?? DEFAULT_BFF_MAX_AGE;
+  }
+}
+
+/**
+ * Client authentication of token and revocation requests (clientAuthMethod)
+ */
+function authenticateClient(upstream: UpstreamProvider, body: URLSearchParams, headers: Record<string, string>): void {
+  if (upstream.clientAuthMethod === 'client_secret_basic' && upstream.clientSecret) {
+    const credentials = `${encodeURIComponent(upstream.clientId)}:${encodeURIComponent(upstream.clientSecret)}`;
+    headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+  } else {
+    body.set('client_id', upstream.clientId);
+    if (upstream.clientSecret) {
+      body.set('client_secret', upstream.clientSecret);
+    }
+  }
+}
+
+function toServerTokens(tokens: TokenResponse): ServerTokens {
+  return {
+    access_token: tokens.access_token,
+    refresh_token: tokens.refresh_token,
+    id_token: tokens.id_token,
+    expires_at: tokens.expires_in ? Date.now() + tokens.expires_in * 1000 : undefined,
+  };
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function json(status: number, body: unknown): ServerResponse {
+  return { status, body };
+}
+
+function badRequest(error: string, description: string): ServerResponse {
+  return json(400, { error, error_description: description });
+}
+
+/**
+ * RFC 6749 error body for a failed request (upstream error codes like invalid_grant pass through)
+ */
+function errorResponse(error: unknown): ServerResponse {
+  if (error instanceof OAuthError) {
+    return json(error.code === 'network_error' ? 502 : 400, {
+      error: error.error || error.code,
+      error_description: error.errorDescription || error.message,
+    });
+  }
+
+  // Network failures talking to the upstream provider
+  if (error instanceof TypeError) {
+    return json(502, { error: 'temporarily_unavailable', error_description: 'Upstream provider unreachable' });
+  }
+
+  return json(500, { error: 'server_error', error_description: 'Internal error' });
+}
@@ -0,0 +1,95 @@
+/**
+ * OAuth Kit - Server Stores
+ * In-memory handoff and session stores (single process - use Redis/DB in production)
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import type { AuthResult, HandoffBinding, HandoffRedemption, HandoffStore } from '../core/types';
+import type { ServerSession, ServerSessionStore } from './types';
+import { OAuthError } from '../core/errors';
+
+// Handoff codes are only needed for the moment the deeplink takes (seconds)
+const HANDOFF_CODE_TTL = 60;
+
+interface Handoff {
+  result: AuthResult;
+  binding: HandoffBinding;
+  expiresAt: number;
+}
+
+/**
+ * In-memory handoff store
+ */
+export class MemoryHandoffStore implements HandoffStore {
+  private handoffs = new Map<string, Handoff>();
+  private ttl: number;
+
+  /**
+   * @param ttl Code lifetime in seconds (default: 60)
+   */
+  constructor(ttl: number = HANDOFF_CODE_TTL) {
+    this.ttl = ttl;
+  }
+
+  async create(result: AuthResult, binding: HandoffBinding): Promise<string> {
+    this.cleanup();
+
+    const code = randomBytes(32).toString('base64url');
+    this.handoffs.set(code, { result, binding, expiresAt: Date.now() + this.ttl * 1000 });
+    return code;
+  }
+
+  async redeem(code: string, redemption: HandoffRedemption): Promise<AuthResult> {
+    // Single use: gone after the first attempt, whether it succeeds or not
+    const handoff = this.handoffs.get(code);
+    this.handoffs.delete(code);
+
+    if (!handoff || Date.now() > handoff.expiresAt) {
+      throw new OAuthError('token_exchange_failed', 'Invalid or expired handoff code', { error: 'invalid_grant' });
+    }
+
+    // Bound to the WebView flow that started the sign in
+    const challenge = createHash('sha256').update(redemption.verifier).digest('base64url');
+    if (handoff.binding.state !== redemption.state || handoff.binding.challenge !== challenge) {
+      throw new OAuthError('token_exchange_failed', 'Handoff code does not belong to this flow', { error: 'invalid_grant' });
+    }
+
+    return handoff.result;
+  }
+
+  private cleanup(): void {
+    const now = Date.now();
+    for (const [code, handoff] of this.handoffs.entries()) {
+      if (now > handoff.expiresAt) {
+        this.handoffs.delete(code);
+      }
+    }
+  }
+}
+
+/**
+ * In-memory BFF session store
+ */
+export class MemoryServerSessionStore implements ServerSessionStore {
+  private sessions = new Map<string, { session: ServerSession; expiresAt: number }>();
+
+  async get(id: string): Promise<ServerSession | null> {
+    const entry = this.sessions.get(id);
+    if (!entry) {
+      return null;
+    }
+    if (Date.now() > entry.expiresAt) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return entry.session;
+  }
+
+  async set(id: string, session: ServerSession, ttl: number): Promise<void> {
+    this.sessions.set(id, { session, expiresAt: Date.now() + ttl * 1000 });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * OAuth Kit - Server Types
+ * Framework-neutral request/response shapes and server configuration
+ */
+
+import type { HandoffStore, User } from '../core/types';
+
+/**
+ * Incoming request, as seen by the handlers (adapters build this from Express/Fetch)
+ */
+export interface ServerRequest {
+  method: string;
+
+  /** Path relative to where the handler is mounted (e.g. '/exchange') */
+  path: string;
+
+  /** Header names lowercased */
+  headers: Record<string, string | undefined>;
+
+  /** Parsed JSON or form body */
+  body?: Record<string, any>;
+}
+
+/**
+ * Response produced by the handlers
+ */
+export interface ServerResponse {
+  status: number;
+
+  headers?: Record<string, string>;
+
+  /** Set-Cookie header values */
+  cookies?: string[];
+
+  /** JSON body (omitted for 204) */
+  body?: unknown;
+}
+
+/**
+ * Upstream OAuth provider the server talks to with the client secret
+ */
+export interface UpstreamProvider {
+  /** Token endpoint (e.g. 'https://oauth2.googleapis.com/token') */
+  tokenEndpoint: string;
+
+  /** Client ID */
+  clientId: string;
+
+  /** Client secret - stays on the server */
+  clientSecret?: string;
+
+  /** Optional: Token and revocation endpoint authentication (default: 'client_secret_post') */
+  clientAuthMethod?: 'client_secret_post' | 'client_secret_basic';
+
+  /** Optional: Revocation endpoint (RFC 7009) */
+  revocationEndpoint?: string;
+
+  /** Optional: Userinfo endpoint - adds `user` to exchange responses */
+  userinfoEndpoint?: string;
+
+  /** Optional: Allowed redirect_uri values for code exchange (recommended) */
+  redirectUris?: string[];
+
+  /** Optional: Map the upstream userinfo response to the kit's User */
+  mapUser?: (userinfo: Record<string, any>) => User;
+}
+
+/**
+ * Token response of /exchange and /refresh in token mode: the upstream's tokens, plus `user`
+ */
+export interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  refresh_token?: string;
+  /** Seconds (numeric even when the upstream sent a string) */
+  expires_in?: number;
+  id_token?: string;
+  scope?: string;
+
+  /** Exchange only: from the userinfo endpoint or the ID token */
+  user?: User;
+}
+
+/**
+ * Upstream tokens kept for a BFF session
+ */
+export interface ServerTokens {
+  access_token: string;
+  refresh_token?: string;
+  id_token?: string;
+  /** Unix time in milliseconds */
+  expires_at?: number;
+}
+
+/**
+ * Server-side session (backend-for-frontend mode)
+ */
+export interface ServerSession {
+  id: string;
+  provider: string;
+  tokens: ServerTokens;
+  user?: User;
+  createdAt: number;
+
+  /** Transfer code entries only: S256 challenge of the WebView's handoff secret */
+  transferChallenge?: string;
+}
+
+/**
+ * Storage for BFF sessions (use Redis/DB in production)
+ */
+export interface ServerSessionStore {
+  get(id: string): Promise<ServerSession | null>;
+
+  /** @param ttl Lifetime in seconds */
+  set(id: string, session: ServerSession, ttl: number): Promise<void>;
+
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Backend-for-frontend mode: tokens stay on the server behind an httpOnly cookie
+ */
+export interface BffOptions {
+  /** Optional: Session storage (default: in-memory) */
+  sessionStore?: ServerSessionStore;
+
+  /** Optional: Cookie name (default: 'oauthkit_session') */
+  cookieName?: string;
+
+  /** Optional: Session lifetime in seconds (default: 30 days) */
+  maxAge?: number;
+
+  /** Optional: Secure cookie attribute (default: true - set false for http://localhost) */
+  secure?: boolean;
+
+  /** Optional: SameSite cookie attribute (default: 'lax'; 'none' when API and app are on different sites) */
+  sameSite?: 'lax' | 'strict' | 'none';
+
+  /** Optional: Cookie domain */
+  domain?: string;
+
+  /** Optional: Cookie path (default: '/') */
+  path?: string;
+}
+
+/**
+ * Server configuration
+ */
+export interface OAuthServerConfig {
+  /** Upstream providers by name (the `provider` sent by BackendProvider) */
+  providers: Record<string, UpstreamProvider>;
+
+  /** Optional: Store for native handoff codes (default: in-memory) */
+  handoffStore?: HandoffStore;
+
+  /** Optional: Enable backend-for-frontend mode */
+  bff?: BffOptions;
+}